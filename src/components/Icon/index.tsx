@@ -6,6 +6,24 @@ interface IconProps {
   type: string;
 }
 
+// 图标字体中没有的图标，使用同样来自Material Design的SVG
+const SVG_ICONS: { [x: string]: string } = {
+  'list-task':
+    'M19 3H5c-1.11 0-2 .9-2 2v14c0 1.1.89 2 2 2h14c1.11 0 2-.9 2-2V5c0-1.1-.89-2-2-2zm-9 14l-5-5 1.41-1.41L10 14.17l7.59-7.59L19 8l-9 9z',
+  find:
+    'M15.5 14h-.79l-.28-.27C15.41 12.59 16 11.11 16 9.5 16 5.91 13.09 3 9.5 3S3 5.91 3 9.5 5.91 16 9.5 16c1.61 0 3.09-.59 4.23-1.57l.27.28v.79l5 4.99L20.49 19l-4.99-5zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z',
+  outline: 'M3 9h14V7H3v2zm0 4h14v-2H3v2zm0 4h14v-2H3v2zm16 0h2v-2h-2v2zm0-10v2h2V7h-2zm0 6h2v-2h-2v2z',
+};
+
 export default function Icon(props: IconProps) {
-  return <i className={`rmel-iconfont rmel-icon-${props.type}`} />;
+  const path = SVG_ICONS[props.type];
+  return (
+    <i className={`rmel-iconfont rmel-icon-${props.type}`}>
+      {path && (
+        <svg viewBox="0 0 24 24" width="1em" height="1em" fill="currentColor" aria-hidden={true}>
+          <path d={path} />
+        </svg>
+      )}
+    </i>
+  );
 }
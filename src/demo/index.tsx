@@ -19,6 +19,8 @@ const PLUGINS = undefined;
 MdEditor.use(Plugins.TabInsert, {
   tabMapValue: 1, // note that 1 means a '\t' instead of ' '.
 });
+MdEditor.use(Plugins.ListContinuation);
+MdEditor.use(Plugins.Find);
 
 class Demo extends React.Component<any, any> {
   mdEditor?: MdEditor = undefined;
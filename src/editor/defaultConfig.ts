@@ -18,16 +18,24 @@ const defaultConfig: EditorConfig = {
   htmlClass: '',
   markdownClass: '',
   syncScrollMode: ['rightFollowLeft', 'leftFollowRight'],
+  previewClickToSource: true,
+  syntaxHighlight: false,
   imageUrl: '',
   imageAccept: '',
+  imageProcess: undefined,
   linkUrl: '',
   table: {
     maxRow: 4,
     maxCol: 6,
   },
   allowPasteImage: true,
+  allowPasteHtml: false,
+  htmlToMarkdown: undefined,
   onImageUpload: undefined,
+  onFileUpload: undefined,
+  uploadConcurrency: 0,
   onCustomImageUpload: undefined,
+  onLinkSuggest: undefined,
   shortcuts: true,
 };
 
@@ -0,0 +1,56 @@
+import * as React from 'react';
+import { getHighlightTokens } from '../utils/highlight';
+
+export interface HighlightProps {
+  text: string;
+  className?: string;
+}
+
+/**
+ * 编辑区域下方的语法高亮层，与编辑区域使用相同的字体和换行，只改变文字颜色
+ */
+export class HighlightRender extends React.PureComponent<HighlightProps, any> {
+  private el = React.createRef<HTMLDivElement>();
+
+  getElement() {
+    return this.el.current;
+  }
+
+  // 跟随编辑区域滚动
+  scrollTo(top: number, left: number) {
+    if (this.el.current) {
+      this.el.current.scrollTop = top;
+      this.el.current.scrollLeft = left;
+    }
+  }
+
+  render() {
+    const lines = getHighlightTokens(this.props.text);
+    return (
+      <div
+        ref={this.el}
+        className={`section-container input-highlight ${this.props.className || ''}`}
+        aria-hidden={true}
+      >
+        {lines.map((tokens, i) => (
+          <React.Fragment key={i}>
+            {tokens.map((it, j) =>
+              it.type ? (
+                <span key={j} className={`md-${it.type}`}>
+                  {it.text}
+                </span>
+              ) : (
+                it.text
+              ),
+            )}
+            {i < lines.length - 1 ? '\n' : null}
+          </React.Fragment>
+        ))}
+        {/* 与编辑区域一样，最后的空行也占据高度 */}
+        {'\u200b'}
+      </div>
+    );
+  }
+}
+
+export default HighlightRender;
@@ -1,15 +1,29 @@
 import * as React from 'react';
+import * as uuid from 'uuid/v4';
 import Icon from '../components/Icon';
 import NavigationBar from '../components/NavigationBar';
 import ToolBar from '../components/ToolBar';
 import i18n from '../i18n';
-import emitter from '../share/emitter';
-import { EditorConfig, EditorEvent, initialSelection, KeyboardEventListener, Selection } from '../share/var';
+import emitter, { Emitter } from '../share/emitter';
+import {
+  EditorConfig,
+  EditorEvent,
+  initialSelection,
+  KeyboardEventListener,
+  PasteTransform,
+  Selection,
+  UploadEvent,
+} from '../share/var';
 import getDecorated from '../utils/decorate';
+import { htmlToMarkdown } from '../utils/html';
+import { processImage } from '../utils/image';
 import mergeConfig from '../utils/mergeConfig';
+import { copyTextStyles, getLineTops, getScrollAnchors, mapScrollTop, ScrollAnchor } from '../utils/scroll';
+import { getBlockRange, getLineStart, getSourceLine } from '../utils/source';
 import { isKeyMatch, isPromise } from '../utils/tool';
-import getUploadPlaceholder from '../utils/uploadPlaceholder';
+import getUploadPlaceholder, { getUploadSyntax } from '../utils/uploadPlaceholder';
 import defaultConfig from './defaultConfig';
+import HighlightRender from './highlight';
 import './index.less';
 import { HtmlRender, HtmlType } from './preview';
 
@@ -25,6 +39,7 @@ interface EditorProps extends EditorConfig {
   readOnly?: boolean;
   config?: any;
   plugins?: string[];
+  pluginConfigs?: Plugin[];
   // Configs
   onChange?: (
     data: {
@@ -52,6 +67,8 @@ interface EditorState {
     maxRow: number;
     maxCol: number;
   };
+  // 插件显示在编辑区域旁边的内容，如大纲
+  sidebar?: React.ReactNode;
 }
 
 class Editor extends React.Component<EditorProps, EditorState> {
@@ -98,13 +115,24 @@ class Editor extends React.Component<EditorProps, EditorState> {
   static getLocale = i18n.getCurrent.bind(i18n);
 
   private config: EditorConfig;
+  // Each editor has its own event bus, so plugins only receive events from their own editor
+  private emitter: Emitter = new Emitter();
+  // 编辑器卸载时，插件也会随之卸载，此时不再更新状态
+  private isUnmounting = false;
 
   private nodeMdText = React.createRef<HTMLTextAreaElement>();
+  private nodeMdHighlight = React.createRef<HighlightRender>();
   private nodeMdPreview = React.createRef<HtmlRender>();
   private nodeMdPreviewWrapper = React.createRef<HTMLDivElement>();
 
   private hasContentChanged = true;
 
+  // Changes made in a transaction, see transact()
+  private transaction: {
+    text: string;
+    selection?: { start: number; end: number };
+  } | null = null;
+
   private handleInputScroll: (e: React.UIEvent<HTMLTextAreaElement>) => void;
   private handlePreviewScroll: (e: React.UIEvent<HTMLDivElement>) => void;
 
@@ -131,11 +159,14 @@ class Editor extends React.Component<EditorProps, EditorState> {
 
     this.handleChange = this.handleChange.bind(this);
     this.handlePaste = this.handlePaste.bind(this);
+    this.convertHtml = this.convertHtml.bind(this);
     this.handleDrop = this.handleDrop.bind(this);
     this.handleToggleMenu = this.handleToggleMenu.bind(this);
     this.handleKeyDown = this.handleKeyDown.bind(this);
     this.handleLocaleUpdate = this.handleLocaleUpdate.bind(this);
 
+    this.handlePreviewClick = this.handlePreviewClick.bind(this);
+    this.handlePreviewDoubleClick = this.handlePreviewDoubleClick.bind(this);
     this.handleFocus = this.handleFocus.bind(this);
     this.handleBlur = this.handleBlur.bind(this);
 
@@ -146,13 +177,17 @@ class Editor extends React.Component<EditorProps, EditorState> {
   componentDidMount() {
     const { text } = this.state;
     this.renderHTML(text);
+    this.syncHighlightStyle();
     emitter.on(emitter.EVENT_LANG_CHANGE, this.handleLocaleUpdate);
     // init i18n
     i18n.setUp();
   }
 
   componentWillUnmount() {
+    this.isUnmounting = true;
+    this.cancelUpload();
     emitter.off(emitter.EVENT_LANG_CHANGE, this.handleLocaleUpdate);
+    this.emitter.removeAllListeners();
   }
 
   componentDidUpdate(prevProps: EditorProps) {
@@ -169,19 +204,43 @@ class Editor extends React.Component<EditorProps, EditorState> {
         this.renderHTML(value);
       }
     }
-    if (prevProps.plugins !== this.props.plugins) {
+    if (prevProps.plugins !== this.props.plugins || prevProps.pluginConfigs !== this.props.pluginConfigs) {
       this.setState({
         plugins: this.getPlugins(),
       });
     }
+    // 字体等样式可能随着markdownClass、全屏等变化
+    this.syncHighlightStyle();
+  }
+
+  /**
+   * Merge global registered plugins with plugins of this instance
+   * Instance plugins will replace global plugins which have the same component or name
+   */
+  private getAvailablePlugins() {
+    const available: Plugin[] = [...Editor.plugins];
+    if (this.props.pluginConfigs) {
+      for (const it of this.props.pluginConfigs) {
+        const index = available.findIndex(
+          exists => exists.comp === it.comp || exists.comp.pluginName === it.comp.pluginName,
+        );
+        if (index >= 0) {
+          available.splice(index, 1, it);
+        } else {
+          available.push(it);
+        }
+      }
+    }
+    return available;
   }
 
   private getPlugins() {
+    const available = this.getAvailablePlugins();
     let plugins: Plugin[] = [];
     if (this.props.plugins) {
       // If plugins option is configured, use only specified plugins
       const addToPlugins = (name: string) => {
-        for (const it of Editor.plugins) {
+        for (const it of available) {
           if (it.comp.pluginName === name) {
             plugins.push(it);
             return;
@@ -206,8 +265,8 @@ class Editor extends React.Component<EditorProps, EditorState> {
         }
       }
     } else {
-      // Use all registered plugins
-      plugins = [...Editor.plugins];
+      // Use all available plugins
+      plugins = available;
     }
     const result: { [x: string]: React.ReactElement[] } = {};
     plugins.forEach(it => {
@@ -229,11 +288,33 @@ class Editor extends React.Component<EditorProps, EditorState> {
     return result;
   }
 
+  // 高亮层使用与编辑区域相同的字体和内边距，保持相同的排版
+  private syncHighlightStyle() {
+    const textarea = this.nodeMdText.current;
+    const highlight = this.nodeMdHighlight.current ? this.nodeMdHighlight.current.getElement() : null;
+    if (textarea && highlight) {
+      copyTextStyles(textarea, highlight);
+    }
+  }
+
+  private syncHighlightScroll() {
+    const textarea = this.nodeMdText.current;
+    if (textarea && this.nodeMdHighlight.current) {
+      this.nodeMdHighlight.current.scrollTo(textarea.scrollTop, textarea.scrollLeft);
+    }
+  }
+
   // sync left and right section's scroll
-  private scrollScale = 1;
+  private scrollAnchors: ScrollAnchor[] = [];
+  // 两侧的尺寸，变化时（如图片加载完成）重新计算锚点
+  private scrollAnchorsKey = '';
   private isSyncingScroll = false;
   private shouldSyncScroll: 'md' | 'html' = 'md';
   private handleSyncScroll(type: 'md' | 'html', e: React.UIEvent<HTMLTextAreaElement | HTMLDivElement>) {
+    // 高亮层始终跟随编辑区域滚动
+    if (type === 'md') {
+      this.syncHighlightScroll();
+    }
     // prevent loop
     if (type !== this.shouldSyncScroll) {
       return;
@@ -242,27 +323,32 @@ class Editor extends React.Component<EditorProps, EditorState> {
     if (this.props.onScroll) {
       this.props.onScroll(e, type);
     }
-    emitter.emit(emitter.EVENT_SCROLL, e, type);
+    this.emitter.emit(this.emitter.EVENT_SCROLL, e, type);
     // should sync scroll?
     const { syncScrollMode = [] } = this.config;
     if (!syncScrollMode.includes(type === 'md' ? 'rightFollowLeft' : 'leftFollowRight')) {
       return;
     }
-    if (this.hasContentChanged && this.nodeMdText.current && this.nodeMdPreviewWrapper.current) {
-      // 计算出左右的比例
-      this.scrollScale = this.nodeMdText.current.scrollHeight / this.nodeMdPreviewWrapper.current.scrollHeight;
-      this.hasContentChanged = false;
-    }
     if (!this.isSyncingScroll) {
       this.isSyncingScroll = true;
       requestAnimationFrame(() => {
-        if (this.nodeMdText.current && this.nodeMdPreviewWrapper.current) {
+        const md = this.nodeMdText.current;
+        const html = this.nodeMdPreviewWrapper.current;
+        if (md && html) {
+          // 按源码行对应的位置计算，锚点之间按比例滚动
+          const getSize = (it: HTMLElement) => `${it.scrollHeight},${it.clientHeight},${it.clientWidth}`;
+          const key = `${getSize(md)},${getSize(html)}`;
+          if (this.hasContentChanged || key !== this.scrollAnchorsKey) {
+            this.scrollAnchors = getScrollAnchors(md, html, this.state.text);
+            this.scrollAnchorsKey = key;
+            this.hasContentChanged = false;
+          }
           if (type === 'md') {
             // left to right
-            this.nodeMdPreviewWrapper.current.scrollTop = this.nodeMdText.current.scrollTop / this.scrollScale;
+            html.scrollTop = mapScrollTop(this.scrollAnchors, md.scrollTop, 'md');
           } else {
             // right to left
-            this.nodeMdText.current.scrollTop = this.nodeMdPreviewWrapper.current.scrollTop * this.scrollScale;
+            md.scrollTop = mapScrollTop(this.scrollAnchors, html.scrollTop, 'html');
           }
         }
         this.isSyncingScroll = false;
@@ -303,7 +389,7 @@ class Editor extends React.Component<EditorProps, EditorState> {
     if (onFocus) {
       onFocus(e);
     }
-    emitter.emit(emitter.EVENT_FOCUS, e);
+    this.emitter.emit(this.emitter.EVENT_FOCUS, e);
   }
 
   private handleBlur(e: React.FocusEvent<HTMLTextAreaElement>) {
@@ -311,7 +397,46 @@ class Editor extends React.Component<EditorProps, EditorState> {
     if (onBlur) {
       onBlur(e);
     }
-    emitter.emit(emitter.EVENT_BLUR, e);
+    this.emitter.emit(this.emitter.EVENT_BLUR, e);
+  }
+
+  private handlePreviewClick(e: React.MouseEvent<HTMLDivElement>) {
+    this.emitter.emit(this.emitter.EVENT_PREVIEW_CLICK, e);
+    // 插件已经处理了点击（如切换任务状态），或者正在选择预览区域中的文字时，不跳转
+    const selection = window.getSelection();
+    if (!e.defaultPrevented && (!selection || selection.isCollapsed)) {
+      this.jumpToSource(e.target as Element, false);
+    }
+  }
+  private handlePreviewDoubleClick(e: React.MouseEvent<HTMLDivElement>) {
+    this.jumpToSource(e.target as Element, true);
+  }
+  /**
+   * 将光标移动到预览区域中的元素对应的源码，并滚动到可见位置
+   * @param select 是否选中整个块
+   */
+  private jumpToSource(target: Element, select: boolean) {
+    const textarea = this.nodeMdText.current;
+    const preview = this.nodeMdPreviewWrapper.current;
+    if (!this.config.previewClickToSource || !this.state.view.md || !textarea || !preview) {
+      return;
+    }
+    const { text } = this.state;
+    const line = getSourceLine(target, preview, text);
+    if (typeof line === 'undefined') {
+      return;
+    }
+    if (select) {
+      this.setSelection(getBlockRange(text, line));
+    } else {
+      const start = getLineStart(text, line);
+      this.setSelection({ start, end: start });
+    }
+    const top = getLineTops(textarea, text.split('\n', line + 1).join('\n'))[line] || 0;
+    // 不在可见区域时，滚动到上方三分之一处
+    if (top < textarea.scrollTop || top >= textarea.scrollTop + textarea.clientHeight) {
+      textarea.scrollTop = Math.max(0, top - textarea.clientHeight / 3);
+    }
   }
 
   /**
@@ -326,25 +451,36 @@ class Editor extends React.Component<EditorProps, EditorState> {
   }
 
   /**
-   * Listen paste event to support paste images
+   * Listen paste event to support paste images, files, HTML and transforms
    */
   private handlePaste(e: React.SyntheticEvent) {
-    if (!this.config.allowPasteImage || !this.config.onImageUpload) {
-      return;
-    }
     const event = e.nativeEvent as ClipboardEvent;
     // @ts-ignore
-    const items = (event.clipboardData || window.clipboardData).items as DataTransferItemList;
+    const clipboardData = (event.clipboardData || window.clipboardData) as DataTransfer;
+    if (!clipboardData) {
+      return;
+    }
+    const { allowPasteImage, allowPasteHtml, onImageUpload, onFileUpload } = this.config;
+    const allowImage = !!allowPasteImage;
+    const items = clipboardData.items;
 
-    if (items) {
+    if (items && ((allowImage && onImageUpload) || onFileUpload || allowPasteHtml)) {
       e.preventDefault();
-      this.uploadWithDataTransfer(items);
+      this.uploadWithDataTransfer(items, allowImage);
+      return;
+    }
+    // 纯文本只在被处理后才替换默认的粘贴行为
+    const text = clipboardData.getData('text');
+    const transformed = this.transformPaste(text);
+    if (transformed !== text) {
+      e.preventDefault();
+      this.insertPastedText(transformed);
     }
   }
 
-  // Drag images to upload
+  // Drag images or files to upload
   private handleDrop(e: React.SyntheticEvent) {
-    if (!this.config.onImageUpload) {
+    if (!this.config.onImageUpload && !this.config.onFileUpload) {
       return;
     }
     const event = e.nativeEvent as DragEvent;
@@ -386,6 +522,13 @@ class Editor extends React.Component<EditorProps, EditorState> {
    * @return {Selection}
    */
   getSelection(): Selection {
+    if (this.transaction && this.transaction.selection) {
+      const selected = this.transaction.selection;
+      return {
+        ...selected,
+        text: this.transaction.text.slice(selected.start, selected.end),
+      };
+    }
     const source = this.nodeMdText.current;
     if (!source) {
       return { ...initialSelection };
@@ -405,6 +548,10 @@ class Editor extends React.Component<EditorProps, EditorState> {
    * @param {Selection} to
    */
   setSelection(to: { start: number; end: number }) {
+    if (this.transaction) {
+      this.transaction.selection = { start: to.start, end: to.end };
+      return;
+    }
     if (this.nodeMdText.current) {
       this.nodeMdText.current.setSelectionRange(to.start, to.end, 'forward');
       this.nodeMdText.current.focus();
@@ -429,7 +576,7 @@ class Editor extends React.Component<EditorProps, EditorState> {
     if (type === 'link') {
       decorateOption = {
         ...decorateOption,
-        linkUrl: this.config.linkUrl,
+        linkUrl: option.linkUrl || this.config.linkUrl,
       };
     }
     if (type === 'tab' && selection.start !== selection.end) {
@@ -443,20 +590,52 @@ class Editor extends React.Component<EditorProps, EditorState> {
       });
       selection = this.getSelection();
     }
+    // Text around the selection in the same line, used to detect existing markers
+    const text = this.getMdValue();
+    const lineStart = text.slice(0, selection.start).lastIndexOf('\n') + 1;
+    const lineEnd = text.indexOf('\n', selection.end);
+    decorateOption.context = {
+      before: text.slice(lineStart, selection.start),
+      after: text.slice(selection.end, lineEnd === -1 ? text.length : lineEnd),
+    };
     const decorate = getDecorated(selection.text, type, decorateOption);
+    if (decorate.extend) {
+      this.setSelection({
+        start: selection.start - decorate.extend.before,
+        end: selection.end + decorate.extend.after,
+      });
+    }
     this.insertText(decorate.text, true, decorate.selection);
   }
   /**
    * Insert a placeholder, and replace it when the Promise resolved
+   * The placeholder will be removed if the Promise rejected
    * @param placeholder
    * @param wait
    */
   insertPlaceholder(placeholder: string, wait: Promise<string>) {
     this.insertText(placeholder, true);
-    wait.then(str => {
-      const text = this.getMdValue().replace(placeholder, str);
-      this.setText(text);
-    });
+    this.replacePlaceholder(placeholder, wait);
+  }
+  private replacePlaceholder(placeholder: string, wait: Promise<string>) {
+    const replace = (str: string) => {
+      const text = this.getMdValue();
+      const index = text.indexOf(placeholder);
+      // 编辑器已卸载，或者占位符已被删除
+      if (!this.nodeMdText.current || index < 0) {
+        return;
+      }
+      // 计算出替换后的光标位置
+      const offset = str.length - placeholder.length;
+      const mapPosition = (position: number) =>
+        position <= index ? position : Math.max(index + str.length, position + offset);
+      const selection = this.getSelection();
+      this.setText(text.slice(0, index) + str + text.slice(index + placeholder.length), undefined, {
+        start: mapPosition(selection.start),
+        end: mapPosition(selection.end),
+      });
+    };
+    wait.then(replace, () => replace(''));
   }
   /**
    * Insert text
@@ -465,7 +644,7 @@ class Editor extends React.Component<EditorProps, EditorState> {
    * @param {Selection} newSelection New selection
    */
   insertText(value: string = '', replaceSelected: boolean = false, newSelection?: { start: number; end: number }) {
-    const { text } = this.state;
+    const text = this.getMdValue();
     const selection = this.getSelection();
     const beforeContent = text.slice(0, selection.start);
     const afterContent = text.slice(replaceSelected ? selection.end : selection.start, text.length);
@@ -496,14 +675,22 @@ class Editor extends React.Component<EditorProps, EditorState> {
     newSelection?: { start: number; end: number },
   ) {
     const text = value.replace(/↵/g, '\n');
-    if (this.state.text === value) {
+    if (this.getMdValue() === value) {
+      return;
+    }
+    if (this.transaction) {
+      // Apply changes when the transaction ends
+      this.transaction.text = text;
+      if (newSelection) {
+        this.transaction.selection = newSelection;
+      }
       return;
     }
     this.setState({ text });
     if (this.props.onChange) {
       this.props.onChange({ text, html: this.getHtmlValue() }, event);
     }
-    emitter.emit(emitter.EVENT_CHANGE, value, event, typeof event === 'undefined');
+    this.emitter.emit(this.emitter.EVENT_CHANGE, value, event, typeof event === 'undefined');
     if (newSelection) {
       setTimeout(() => this.setSelection(newSelection));
     }
@@ -511,6 +698,8 @@ class Editor extends React.Component<EditorProps, EditorState> {
       this.hasContentChanged = true;
     }
     this.renderHTML(text).then(() => {
+      // 预览更新后重新计算滚动锚点
+      this.hasContentChanged = true;
       if (this.props.onChange) {
         this.props.onChange(
           {
@@ -528,7 +717,36 @@ class Editor extends React.Component<EditorProps, EditorState> {
    * @return {string}
    */
   getMdValue(): string {
-    return this.state.text;
+    return this.transaction ? this.transaction.text : this.state.text;
+  }
+
+  /**
+   * Run multiple changes as one, only trigger onChange and change event once
+   * @param {Function} callback Make changes in this function
+   */
+  transact<T>(callback: () => T): T {
+    // Nested transactions are merged into the outermost one
+    if (this.transaction) {
+      return callback();
+    }
+    const origin = this.getMdValue();
+    this.transaction = { text: origin };
+    let result: T;
+    try {
+      result = callback();
+    } catch (e) {
+      // Discard all changes if the callback throws
+      this.transaction = null;
+      throw e;
+    }
+    const { text, selection } = this.transaction;
+    this.transaction = null;
+    if (text !== origin) {
+      this.setText(text, undefined, selection);
+    } else if (selection) {
+      this.setSelection(selection);
+    }
+    return result;
   }
 
   /**
@@ -581,32 +799,90 @@ class Editor extends React.Component<EditorProps, EditorState> {
   private handleKeyDown(e: React.KeyboardEvent<HTMLDivElement>) {
     // 遍历监听数组，找找有没有被监听
     for (const it of this.keyboardListeners) {
-      if (isKeyMatch(e, it)) {
+      if (isKeyMatch(e, it) && it.callback(e) !== false) {
         e.preventDefault();
-        it.callback(e);
         return;
       }
     }
     // 如果没有，触发默认事件
-    emitter.emit(emitter.EVENT_KEY_DOWN, e);
+    this.emitter.emit(this.emitter.EVENT_KEY_DOWN, e);
+  }
+
+  /**
+   * Transform pasted text
+   */
+  private pasteTransforms: PasteTransform[] = [];
+  /**
+   * Add transforms of pasted text, they are called in order
+   * @param {PasteTransform} transform
+   */
+  onPaste(transform: PasteTransform | PasteTransform[]) {
+    if (Array.isArray(transform)) {
+      transform.forEach(it => this.onPaste(it));
+      return;
+    }
+    if (!this.pasteTransforms.includes(transform)) {
+      this.pasteTransforms.push(transform);
+    }
+  }
+  /**
+   * Remove transforms of pasted text
+   * @param {PasteTransform} transform
+   */
+  offPaste(transform: PasteTransform | PasteTransform[]) {
+    if (Array.isArray(transform)) {
+      transform.forEach(it => this.offPaste(it));
+      return;
+    }
+    const index = this.pasteTransforms.indexOf(transform);
+    if (index >= 0) {
+      this.pasteTransforms.splice(index, 1);
+    }
+  }
+  private transformPaste(text: string) {
+    const selection = this.getSelection();
+    // 每个处理函数接收上一个的结果
+    return this.pasteTransforms.reduce((result, it) => {
+      const transformed = it(result, selection);
+      return typeof transformed === 'string' ? transformed : result;
+    }, text);
+  }
+  private insertPastedText(text: string) {
+    const selection = this.getSelection();
+    this.insertText(text, true, {
+      start: selection.start === selection.end ? text.length : 0,
+      end: text.length,
+    });
   }
 
   private getEventType(event: EditorEvent) {
     switch (event) {
       case 'change':
-        return emitter.EVENT_CHANGE;
+        return this.emitter.EVENT_CHANGE;
       case 'fullscreen':
-        return emitter.EVENT_FULL_SCREEN;
+        return this.emitter.EVENT_FULL_SCREEN;
       case 'viewchange':
-        return emitter.EVENT_VIEW_CHANGE;
+        return this.emitter.EVENT_VIEW_CHANGE;
       case 'keydown':
-        return emitter.EVENT_KEY_DOWN;
+        return this.emitter.EVENT_KEY_DOWN;
       case 'blur':
-        return emitter.EVENT_BLUR;
+        return this.emitter.EVENT_BLUR;
       case 'focus':
-        return emitter.EVENT_FOCUS;
+        return this.emitter.EVENT_FOCUS;
       case 'scroll':
-        return emitter.EVENT_SCROLL;
+        return this.emitter.EVENT_SCROLL;
+      case 'previewclick':
+        return this.emitter.EVENT_PREVIEW_CLICK;
+      case 'uploadstart':
+        return this.emitter.EVENT_UPLOAD_START;
+      case 'uploadprogress':
+        return this.emitter.EVENT_UPLOAD_PROGRESS;
+      case 'uploadsuccess':
+        return this.emitter.EVENT_UPLOAD_SUCCESS;
+      case 'uploaderror':
+        return this.emitter.EVENT_UPLOAD_ERROR;
+      case 'uploadcancel':
+        return this.emitter.EVENT_UPLOAD_CANCEL;
     }
   }
   /**
@@ -617,7 +893,7 @@ class Editor extends React.Component<EditorProps, EditorState> {
   on(event: EditorEvent, cb: any) {
     const eventType = this.getEventType(event);
     if (eventType) {
-      emitter.on(eventType, cb);
+      this.emitter.on(eventType, cb);
     }
   }
   /**
@@ -628,7 +904,7 @@ class Editor extends React.Component<EditorProps, EditorState> {
   off(event: EditorEvent, cb: any) {
     const eventType = this.getEventType(event);
     if (eventType) {
-      emitter.off(eventType, cb);
+      this.emitter.off(eventType, cb);
     }
   }
 
@@ -644,7 +920,7 @@ class Editor extends React.Component<EditorProps, EditorState> {
         view: newView,
       },
       () => {
-        emitter.emit(emitter.EVENT_VIEW_CHANGE, newView);
+        this.emitter.emit(this.emitter.EVENT_VIEW_CHANGE, newView);
       },
     );
   }
@@ -655,6 +931,28 @@ class Editor extends React.Component<EditorProps, EditorState> {
   getView() {
     return { ...this.state.view };
   }
+  /**
+   * Get config of an available plugin, merged with its default config
+   * @param {string} pluginName
+   * @return {object | undefined} undefined if the plugin is not available
+   */
+  getPluginConfig(pluginName: string) {
+    const plugin = this.getAvailablePlugins().find(it => it.comp.pluginName === pluginName);
+    return plugin ? { ...(plugin.comp.defaultConfig || {}), ...(plugin.config || {}) } : undefined;
+  }
+
+  /**
+   * Show a side panel next to the editor, e.g. outline
+   * @param {React.ReactNode} sidebar Content of side panel, hide side panel if not set
+   */
+  setSidebar(sidebar?: React.ReactNode) {
+    if (this.isUnmounting) {
+      return;
+    }
+    this.setState({
+      sidebar,
+    });
+  }
 
   /**
    * Enter or exit full screen
@@ -667,7 +965,7 @@ class Editor extends React.Component<EditorProps, EditorState> {
           fullScreen: enable,
         },
         () => {
-          emitter.emit(emitter.EVENT_FULL_SCREEN, enable);
+          this.emitter.emit(this.emitter.EVENT_FULL_SCREEN, enable);
         },
       );
     }
@@ -680,40 +978,218 @@ class Editor extends React.Component<EditorProps, EditorState> {
     return this.state.fullScreen;
   }
 
-  private uploadWithDataTransfer(items: DataTransferItemList) {
-    const { onImageUpload } = this.config;
-    if (!onImageUpload) {
-      return;
+  /**
+   * Convert HTML to markdown, with the custom converter if configured
+   * @param {string} html
+   * @return {Promise<string>}
+   */
+  private convertHtml(html: string): Promise<string> {
+    const convert = this.config.htmlToMarkdown;
+    return Promise.resolve(typeof convert === 'function' ? convert(html) : htmlToMarkdown(html));
+  }
+
+  /**
+   * Upload a file and insert it, a placeholder is shown while uploading
+   * Images use onImageUpload if configured, other files use onFileUpload
+   * @param {File} file
+   * @param {Function} format Get text to insert from the uploaded url, default is image or link syntax
+   * @return {string | undefined} Upload id, undefined if the file can not be uploaded
+   */
+  uploadFile(file: File, format?: (url: string) => string): string | undefined {
+    return this.uploadFiles([file], format)[0];
+  }
+  /**
+   * Upload files and insert them in order, each placeholder is replaced when its upload finished
+   * @param {File[]} files
+   * @param {Function} format Get text to insert from the uploaded url, default is image or link syntax
+   * @return {string[]} Upload ids of files which can be uploaded
+   */
+  uploadFiles(files: File[], format?: (url: string) => string): string[] {
+    const uploads = files
+      .map(it => this.startUpload(it, true, format))
+      .filter((it): it is NonNullable<typeof it> => typeof it !== 'undefined');
+    if (uploads.length === 0) {
+      return [];
     }
+    // 与图片插件一样，每个文件一行
+    const placeholders = uploads.map(it => it.placeholder).join('\n');
+    this.insertText(placeholders, true, {
+      start: placeholders.length,
+      end: placeholders.length,
+    });
+    uploads.forEach(it => this.replacePlaceholder(it.placeholder, it.uploaded));
+    return uploads.map(it => it.id);
+  }
+  /**
+   * Cancel an upload, the placeholder will be removed
+   * @param {string} id Upload id, cancel all uploads if not set
+   */
+  cancelUpload(id?: string) {
+    Object.keys(this.uploads)
+      .filter(it => typeof id === 'undefined' || it === id)
+      .forEach(it => this.uploads[it]());
+  }
+
+  /**
+   * Cancel functions of uploads in progress
+   */
+  private uploads: { [id: string]: () => void } = {};
+  /**
+   * Uploads waiting for a free slot when uploadConcurrency is set
+   */
+  private uploadQueue: (() => void)[] = [];
+  private activeUploads = 0;
+  private acquireUploadSlot() {
+    const { uploadConcurrency } = this.config;
+    if (!uploadConcurrency || this.activeUploads < uploadConcurrency) {
+      this.activeUploads++;
+      return Promise.resolve();
+    }
+    return new Promise<void>(resolve => this.uploadQueue.push(resolve));
+  }
+  private releaseUploadSlot() {
+    const next = this.uploadQueue.shift();
+    // 直接将位置交给下一个等待的上传
+    if (next) {
+      next();
+    } else {
+      this.activeUploads--;
+    }
+  }
+  private startUpload(file: File, allowImage: boolean = true, format?: (url: string) => string) {
+    const upload = this.getFileUploader(file.type, allowImage);
+    if (!upload) {
+      return undefined;
+    }
+    // onImageUpload总是使用图片语法，onFileUpload根据文件类型决定
+    const syntax = format || (upload === this.config.onImageUpload ? 'image' : getUploadSyntax(file));
+    const id: string = uuid();
+    const controller = typeof AbortController === 'undefined' ? undefined : new AbortController();
+    let isCanceled = false;
+    const canceled = new Promise((resolve: (str: string) => void, reject) => {
+      this.uploads[id] = () => {
+        isCanceled = true;
+        if (controller) {
+          controller.abort();
+        }
+        reject(new Error('Upload canceled'));
+      };
+    });
+    const emit = (type: string, data: Partial<UploadEvent> = {}) => {
+      const event: UploadEvent = { id, file, ...data };
+      this.emitter.emit(type, event);
+    };
+    // 获得位置后才开始上传，结束（包括失败、取消）后释放位置
+    let isStarted = false;
+    const finish = () => {
+      if (isStarted) {
+        isStarted = false;
+        this.releaseUploadSlot();
+      }
+    };
+    const { imageProcess } = this.config;
+    let processError: unknown;
+    const ready = this.acquireUploadSlot().then(() => {
+      isStarted = true;
+      if (isCanceled) {
+        finish();
+        return undefined;
+      }
+      if (!imageProcess || !file.type.includes('image')) {
+        return file;
+      }
+      // 上传前处理图片
+      return processImage(file, imageProcess).catch(error => {
+        processError = error;
+        throw error;
+      });
+    });
+    emit(this.emitter.EVENT_UPLOAD_START);
+    const { placeholder, uploaded } = getUploadPlaceholder(
+      file,
+      upload,
+      syntax,
+      {
+        onProgress: progress => {
+          if (this.uploads[id]) {
+            emit(this.emitter.EVENT_UPLOAD_PROGRESS, { progress });
+          }
+        },
+        signal: controller ? controller.signal : undefined,
+      },
+      ready,
+    );
+    const result = Promise.race([uploaded, canceled]).then(
+      text => {
+        delete this.uploads[id];
+        finish();
+        emit(this.emitter.EVENT_UPLOAD_SUCCESS, { text });
+        return text;
+      },
+      error => {
+        delete this.uploads[id];
+        finish();
+        emit(isCanceled ? this.emitter.EVENT_UPLOAD_CANCEL : this.emitter.EVENT_UPLOAD_ERROR, { error });
+        // 图片处理失败（如文件过大）时，用错误信息替换占位符，其他失败会移除占位符
+        if (error === processError && error instanceof Error) {
+          const message = error.message.replace(/[\[\]]/g, '\\$&');
+          return syntax === 'link'
+            ? getDecorated(message, 'link', { linkUrl: '' }).text
+            : getDecorated('', 'image', { target: message, imageUrl: '' }).text;
+        }
+        throw error;
+      },
+    );
+    return { id, placeholder, uploaded: result };
+  }
+
+  /**
+   * Get upload function of file
+   * Images use onImageUpload if configured, other files use onFileUpload
+   */
+  private getFileUploader(type: string, allowImage: boolean) {
+    const { onImageUpload, onFileUpload } = this.config;
+    if (type.includes('image')) {
+      if (!allowImage) {
+        return undefined;
+      }
+      if (onImageUpload) {
+        return onImageUpload;
+      }
+    }
+    return onFileUpload;
+  }
+
+  private uploadWithDataTransfer(items: DataTransferItemList, allowImage: boolean = true) {
+    const { allowPasteHtml } = this.config;
+    const list: DataTransferItem[] = Array.prototype.slice.call(items);
+    const isUploadable = (it: DataTransferItem) => it.kind === 'file' && !!this.getFileUploader(it.type, allowImage);
+    // 有文件时只上传文件，否则优先使用HTML
+    const html =
+      allowPasteHtml && !list.some(isUploadable)
+        ? list.find(it => it.kind === 'string' && it.type === 'text/html')
+        : undefined;
     const queue: Promise<string>[] = [];
-    Array.prototype.forEach.call(items, (it: DataTransferItem) => {
-      if (it.kind === 'file' && it.type.includes('image')) {
+    const uploads: { placeholder: string; uploaded: Promise<string> }[] = [];
+    list.forEach(it => {
+      if (it.kind === 'file') {
         const file = it.getAsFile();
-        if (file) {
-          const placeholder = getUploadPlaceholder(file, onImageUpload);
-          queue.push(Promise.resolve(placeholder.placeholder));
-          placeholder.uploaded.then(str => {
-            const text = this.getMdValue().replace(placeholder.placeholder, str);
-            const offset = str.length - placeholder.placeholder.length;
-            // 计算出替换后的光标位置
-            const selection = this.getSelection();
-            this.setText(text, undefined, {
-              start: selection.start + offset,
-              end: selection.start + offset,
-            });
-          });
+        const upload = file ? this.startUpload(file, allowImage) : undefined;
+        if (upload) {
+          queue.push(Promise.resolve(upload.placeholder));
+          uploads.push(upload);
         }
-      } else if (it.kind === 'string' && it.type === 'text/plain') {
+      } else if (it === html) {
+        queue.push(new Promise((resolve: (str: string) => void) => it.getAsString(resolve)).then(this.convertHtml));
+      } else if (!html && it.kind === 'string' && it.type === 'text/plain') {
         queue.push(new Promise(resolve => it.getAsString(resolve)));
       }
     });
     Promise.all(queue).then(res => {
-      const text = res.join('');
-      const selection = this.getSelection();
-      this.insertText(text, true, {
-        start: selection.start === selection.end ? text.length : 0,
-        end: text.length,
-      });
+      // 与uploadFiles一样，每个文件一行
+      this.insertPastedText(this.transformPaste(res.filter(it => it !== '').join('\n')));
+      // 插入占位符之后再替换，避免上传完成得比插入更早
+      uploads.forEach(({ placeholder, uploaded }) => this.replacePlaceholder(placeholder, uploaded));
     });
   }
 
@@ -746,7 +1222,15 @@ class Editor extends React.Component<EditorProps, EditorState> {
               </span>
             </ToolBar>
           )}
+          {this.state.sidebar ? <aside className="sec-side">{this.state.sidebar}</aside> : null}
           <section className={`section sec-md ${view.md ? 'visible' : 'in-visible'}`}>
+            {this.config.syntaxHighlight ? (
+              <HighlightRender
+                ref={this.nodeMdHighlight}
+                text={this.state.text}
+                className={this.config.markdownClass}
+              />
+            ) : null}
             <textarea
               id={editorId}
               ref={this.nodeMdText}
@@ -754,7 +1238,8 @@ class Editor extends React.Component<EditorProps, EditorState> {
               placeholder={this.props.placeholder}
               readOnly={this.props.readOnly}
               value={this.state.text}
-              className={`section-container input ${this.config.markdownClass || ''}`}
+              className={`section-container input ${this.config.syntaxHighlight ? 'transparent' : ''} ${this.config
+                .markdownClass || ''}`}
               wrap="hard"
               onChange={this.handleChange}
               onScroll={this.handleInputScroll}
@@ -771,6 +1256,8 @@ class Editor extends React.Component<EditorProps, EditorState> {
               ref={this.nodeMdPreviewWrapper}
               onMouseOver={() => (this.shouldSyncScroll = 'html')}
               onScroll={this.handlePreviewScroll}
+              onClick={this.handlePreviewClick}
+              onDoubleClick={this.handlePreviewDoubleClick}
             >
               <HtmlRender html={this.state.html} className={this.config.htmlClass} ref={this.nodeMdPreview} />
             </div>
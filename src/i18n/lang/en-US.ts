@@ -8,13 +8,58 @@ export default {
   btnStrikethrough: 'Strikethrough',
   btnUnordered: 'Unordered list',
   btnOrdered: 'Ordered list',
+  btnTask: 'Task list',
   btnQuote: 'Quote',
   btnLineBreak: 'Line break',
   btnInlineCode: 'Inline code',
   btnCode: 'Code',
   btnTable: 'Table',
+  tableInsertRowAbove: 'Insert row above',
+  tableInsertRowBelow: 'Insert row below',
+  tableRemoveRow: 'Delete row',
+  tableInsertColumnLeft: 'Insert column left',
+  tableInsertColumnRight: 'Insert column right',
+  tableRemoveColumn: 'Delete column',
+  tableMoveColumnLeft: 'Move column left',
+  tableMoveColumnRight: 'Move column right',
+  tableAlignNone: 'No align',
+  tableAlignLeft: 'Align left',
+  tableAlignCenter: 'Align center',
+  tableAlignRight: 'Align right',
   btnImage: 'Image',
+  imageTooLarge: 'Image {name} is {size}, larger than the limit of {maxSize}',
+  imageAlt: 'Alt text',
+  imageUrl: 'URL',
+  imageTitle: 'Title',
+  imageSave: 'Save',
+  imageReplace: 'Replace',
+  imageRemove: 'Remove',
   btnLink: 'Link',
+  linkUrl: 'URL',
+  linkTitle: 'Title',
+  linkInvalid: 'Please enter a valid URL',
+  linkSave: 'OK',
+  linkRemove: 'Remove link',
+  linkCancel: 'Cancel',
+  btnOutline: 'Outline',
+  outlineInsertToc: 'Insert TOC',
+  outlineEmpty: 'No headings',
+  btnFind: 'Find and replace',
+  findQuery: 'Find',
+  findReplacement: 'Replace',
+  findCaseSensitive: 'Match case',
+  findWholeWord: 'Match whole word',
+  findRegex: 'Use regular expression',
+  findInvalid: 'Invalid regular expression',
+  findNoResults: 'No results',
+  findCount: '{count} results',
+  findCurrent: '{current} of {count}',
+  findPrev: 'Previous match',
+  findNext: 'Next match',
+  findClose: 'Close',
+  findToggleReplace: 'Toggle replace',
+  findReplace: 'Replace',
+  findReplaceAll: 'Replace all',
   btnUndo: 'Undo',
   btnRedo: 'Redo',
   btnFullScreen: 'Full screen',
@@ -8,13 +8,58 @@ export default {
   btnStrikethrough: '删除线',
   btnUnordered: '无序列表',
   btnOrdered: '有序列表',
+  btnTask: '任务列表',
   btnQuote: '引用',
   btnLineBreak: '换行',
   btnInlineCode: '行内代码',
   btnCode: '代码块',
   btnTable: '表格',
+  tableInsertRowAbove: '上方插入行',
+  tableInsertRowBelow: '下方插入行',
+  tableRemoveRow: '删除行',
+  tableInsertColumnLeft: '左侧插入列',
+  tableInsertColumnRight: '右侧插入列',
+  tableRemoveColumn: '删除列',
+  tableMoveColumnLeft: '左移列',
+  tableMoveColumnRight: '右移列',
+  tableAlignNone: '默认对齐',
+  tableAlignLeft: '左对齐',
+  tableAlignCenter: '居中对齐',
+  tableAlignRight: '右对齐',
   btnImage: '图片',
+  imageTooLarge: '图片{name}的大小为{size}，超过了{maxSize}的限制',
+  imageAlt: '替代文字',
+  imageUrl: '地址',
+  imageTitle: '标题',
+  imageSave: '保存',
+  imageReplace: '替换',
+  imageRemove: '删除',
   btnLink: '链接',
+  linkUrl: '地址',
+  linkTitle: '标题',
+  linkInvalid: '请输入有效的地址',
+  linkSave: '确定',
+  linkRemove: '取消链接',
+  linkCancel: '取消',
+  btnOutline: '大纲',
+  outlineInsertToc: '插入目录',
+  outlineEmpty: '没有标题',
+  btnFind: '查找和替换',
+  findQuery: '查找',
+  findReplacement: '替换',
+  findCaseSensitive: '区分大小写',
+  findWholeWord: '全字匹配',
+  findRegex: '使用正则表达式',
+  findInvalid: '正则表达式无效',
+  findNoResults: '无结果',
+  findCount: '共 {count} 项',
+  findCurrent: '第 {current} 项，共 {count} 项',
+  findPrev: '上一个匹配项',
+  findNext: '下一个匹配项',
+  findClose: '关闭',
+  findToggleReplace: '切换替换',
+  findReplace: '替换',
+  findReplaceAll: '全部替换',
   btnUndo: '撤销',
   btnRedo: '重做',
   btnFullScreen: '全屏',
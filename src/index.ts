@@ -5,6 +5,7 @@ import BlockCodeInline from './plugins/block/code-inline';
 import BlockQuote from './plugins/block/quote';
 import BlockWrap from './plugins/block/wrap';
 import Clear from './plugins/clear';
+import Find from './plugins/find';
 import FontBold from './plugins/font/bold';
 import FontItalic from './plugins/font/italic';
 import FontStrikethrough from './plugins/font/strikethrough';
@@ -13,10 +14,13 @@ import FullScreen from './plugins/fullScreen';
 import Header from './plugins/header';
 import Image from './plugins/Image';
 import Link from './plugins/link';
+import ListContinuation from './plugins/list/continuation';
 import ListOrdered from './plugins/list/ordered';
+import ListTask from './plugins/list/task';
 import ListUnordered from './plugins/list/unordered';
 import Logger from './plugins/logger';
 import ModeToggle from './plugins/modeToggle';
+import Outline from './plugins/outline';
 import Table from './plugins/table';
 import TabInsert from './plugins/tabInsert';
 
@@ -28,6 +32,7 @@ Editor.use(FontUnderline);
 Editor.use(FontStrikethrough);
 Editor.use(ListUnordered);
 Editor.use(ListOrdered);
+Editor.use(ListTask);
 Editor.use(BlockQuote);
 Editor.use(BlockWrap);
 Editor.use(BlockCodeInline);
@@ -46,6 +51,7 @@ export { default as DropList } from './components/DropList/index';
 export { PluginComponent, PluginProps } from './plugins/Plugin';
 // 导出实用工具
 export { default as getDecorated } from './utils/decorate';
+export { htmlToMarkdown } from './utils/html';
 // 导出内置插件
 export const Plugins = {
   Header,
@@ -55,6 +61,7 @@ export const Plugins = {
   FontStrikethrough,
   ListUnordered,
   ListOrdered,
+  ListTask,
   BlockQuote,
   BlockWrap,
   BlockCodeInline,
@@ -64,10 +71,13 @@ export const Plugins = {
   Link,
   Clear,
   Logger,
+  Find,
   ModeToggle,
   FullScreen,
   AutoResize,
   TabInsert,
+  ListContinuation,
+  Outline,
 };
 
 // 导出编辑器
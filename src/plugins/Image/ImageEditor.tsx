@@ -0,0 +1,118 @@
+// ImageEditor
+import * as React from 'react';
+import i18n from '../../i18n';
+import { MarkdownImage } from '../../utils/image';
+import InputFile from './inputFile';
+import './image.less';
+
+interface ImageEditorProps {
+  image: MarkdownImage;
+  // 为空时不能重新上传
+  accept?: string;
+  onChange?: (image: MarkdownImage) => void;
+  onReplace?: (file: File) => void;
+  onRemove?: () => void;
+}
+
+type ImageField = keyof MarkdownImage;
+
+const FIELDS: { [x: string]: string } = {
+  alt: 'imageAlt',
+  url: 'imageUrl',
+  title: 'imageTitle',
+};
+
+class ImageEditor extends React.Component<ImageEditorProps, MarkdownImage> {
+  private inputFile: React.RefObject<InputFile>;
+
+  constructor(props: any) {
+    super(props);
+
+    this.inputFile = React.createRef();
+    this.handleSave = this.handleSave.bind(this);
+    this.handleReplace = this.handleReplace.bind(this);
+    this.handleRemove = this.handleRemove.bind(this);
+    this.handleKeyDown = this.handleKeyDown.bind(this);
+
+    this.state = { ...props.image };
+  }
+
+  private handleChange(field: ImageField, e: React.ChangeEvent<HTMLInputElement>) {
+    const { value } = e.target;
+    this.setState(state => ({ ...state, [field]: value }));
+  }
+
+  private handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      this.handleSave();
+    }
+  }
+
+  private handleSave() {
+    const { onChange } = this.props;
+    if (typeof onChange === 'function') {
+      onChange({ ...this.state });
+    }
+  }
+
+  private handleReplace() {
+    if (this.inputFile.current) {
+      this.inputFile.current.click();
+    }
+  }
+
+  private handleRemove() {
+    const { onRemove } = this.props;
+    if (typeof onRemove === 'function') {
+      onRemove();
+    }
+  }
+
+  render() {
+    const { accept } = this.props;
+    // 阻止点击事件冒泡，避免关闭弹出层；阻止键盘事件冒泡，避免触发编辑器的快捷键
+    return (
+      <div className="image-editor" onClick={e => e.stopPropagation()} onKeyDown={e => e.stopPropagation()}>
+        {(Object.keys(FIELDS) as ImageField[]).map(it => (
+          <label className="image-editor-field" key={it}>
+            <span className="image-editor-label">{i18n.get(FIELDS[it])}</span>
+            <input
+              className={`image-editor-input image-editor-${it}`}
+              type="text"
+              value={this.state[it]}
+              onChange={this.handleChange.bind(this, it)}
+              onKeyDown={this.handleKeyDown}
+            />
+          </label>
+        ))}
+        <div className="image-editor-actions">
+          <span className="image-editor-item imageSave" onClick={this.handleSave}>
+            {i18n.get('imageSave')}
+          </span>
+          {typeof accept === 'string' && (
+            <span className="image-editor-item imageReplace" onClick={this.handleReplace}>
+              {i18n.get('imageReplace')}
+            </span>
+          )}
+          <span className="image-editor-item imageRemove" onClick={this.handleRemove}>
+            {i18n.get('imageRemove')}
+          </span>
+        </div>
+        {typeof accept === 'string' && (
+          <InputFile
+            accept={accept}
+            ref={this.inputFile}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              const { onReplace } = this.props;
+              if (e.target.files && e.target.files.length > 0 && typeof onReplace === 'function') {
+                onReplace(e.target.files[0]);
+              }
+            }}
+          />
+        )}
+      </div>
+    );
+  }
+}
+export default ImageEditor;
@@ -1,17 +1,29 @@
 import * as React from 'react';
+import DropList from '../../components/DropList';
 import Icon from '../../components/Icon';
 import i18n from '../../i18n';
 import { PluginComponent } from '../../plugins/Plugin';
-import { isPromise } from '../../utils/tool';
-import getUploadPlaceholder from '../../utils/uploadPlaceholder';
+import { Selection } from '../../share/var';
+import getDecorated from '../../utils/decorate';
+import { formatImage, getImageAt, ImageRange, MarkdownImage } from '../../utils/image';
+import { isImageUrl, isPromise } from '../../utils/tool';
+import ImageEditor from './ImageEditor';
 import InputFile from './inputFile';
 
 interface State {
   show: boolean;
+  // 光标所在的图片
+  current?: ImageRange;
 }
 
 export default class Image extends PluginComponent<State> {
   static pluginName = 'image';
+  static defaultConfig = {
+    // 粘贴图片地址时，插入图片
+    pasteImageUrl: false,
+    // 允许一次选择多个文件
+    multiple: false,
+  };
 
   private inputFile: React.RefObject<InputFile>;
 
@@ -22,15 +34,83 @@ export default class Image extends PluginComponent<State> {
     this.onImageChanged = this.onImageChanged.bind(this);
     this.handleCustomImageUpload = this.handleCustomImageUpload.bind(this);
     this.handleImageUpload = this.handleImageUpload.bind(this);
+    this.handlePaste = this.handlePaste.bind(this);
+    this.handleClick = this.handleClick.bind(this);
+    this.hide = this.hide.bind(this);
+    this.handleImageChange = this.handleImageChange.bind(this);
+    this.handleImageReplace = this.handleImageReplace.bind(this);
+    this.handleImageRemove = this.handleImageRemove.bind(this);
 
     this.state = {
       show: false,
     };
   }
 
+  // 光标在图片语法中时，编辑该图片，否则插入图片
+  private handleClick(e: any) {
+    const current = getImageAt(this.editor.getMdValue(), this.editor.getSelection().start);
+    if (current) {
+      this.setState({ show: true, current });
+    } else if (this.editorConfig.onCustomImageUpload) {
+      this.handleCustomImageUpload(e);
+    } else {
+      this.handleImageUpload();
+    }
+  }
+
+  private hide() {
+    this.setState({
+      show: false,
+    });
+  }
+
+  /**
+   * 替换图片语法
+   * @param text 新的内容，为空时删除图片
+   */
+  private replaceImage(range: ImageRange, text: string) {
+    this.editor.setSelection({
+      start: range.start,
+      end: range.end,
+    });
+    this.editor.insertText(text, true, {
+      start: text.length,
+      end: text.length,
+    });
+    this.hide();
+  }
+
+  private handleImageChange(image: MarkdownImage) {
+    const { current } = this.state;
+    if (current) {
+      this.replaceImage(current, formatImage(image));
+    }
+  }
+
+  private handleImageRemove() {
+    const { current } = this.state;
+    if (current) {
+      this.replaceImage(current, '');
+    }
+  }
+
+  // 重新上传图片，保留原有的alt、title
+  private handleImageReplace(file: File) {
+    const { current } = this.state;
+    if (!current) {
+      return;
+    }
+    this.editor.setSelection({
+      start: current.start,
+      end: current.end,
+    });
+    this.editor.uploadFile(file, url => formatImage({ ...current.image, url }));
+    this.hide();
+  }
+
   private handleImageUpload() {
-    const { onImageUpload } = this.editorConfig;
-    if (typeof onImageUpload === 'function') {
+    const { onImageUpload, onFileUpload } = this.editorConfig;
+    if (typeof onImageUpload === 'function' || typeof onFileUpload === 'function') {
       if (this.inputFile.current) {
         this.inputFile.current.click();
       }
@@ -39,12 +119,9 @@ export default class Image extends PluginComponent<State> {
     }
   }
 
-  private onImageChanged(file: File) {
-    const { onImageUpload } = this.editorConfig;
-    if (onImageUpload) {
-      const placeholder = getUploadPlaceholder(file, onImageUpload);
-      this.editor.insertPlaceholder(placeholder.placeholder, placeholder.uploaded);
-    }
+  private onImageChanged(files: FileList) {
+    // 按选择的顺序插入
+    this.editor.uploadFiles(this.getConfig('multiple') ? Array.prototype.slice.call(files) : [files[0]]);
   }
 
   private handleCustomImageUpload(e: any) {
@@ -64,30 +141,62 @@ export default class Image extends PluginComponent<State> {
     }
   }
 
+  private handlePaste(text: string, selection: Selection) {
+    const url = text.trim();
+    if (selection.text !== '' || !isImageUrl(url)) {
+      return undefined;
+    }
+    return getDecorated('', 'image', { target: '', imageUrl: url }).text;
+  }
+
+  componentDidMount() {
+    if (this.getConfig('pasteImageUrl')) {
+      this.editor.onPaste(this.handlePaste);
+    }
+  }
+
+  componentWillUnmount() {
+    this.editor.offPaste(this.handlePaste);
+  }
+
   render() {
-    const isCustom = !!this.editorConfig.onCustomImageUpload;
-    return isCustom ? (
-      <span className="button button-type-image" title={i18n.get('btnImage')} onClick={this.handleCustomImageUpload}>
-        <Icon type="image" />
-      </span>
-    ) : (
+    const { onImageUpload, onFileUpload, onCustomImageUpload } = this.editorConfig;
+    const { current } = this.state;
+    const accept = this.editorConfig.imageAccept || '';
+    return (
       <span
         className="button button-type-image"
         title={i18n.get('btnImage')}
-        onClick={this.handleImageUpload}
+        onClick={this.handleClick}
+        onMouseLeave={this.hide}
         style={{ position: 'relative' }}
       >
         <Icon type="image" />
-        <InputFile
-          accept={this.editorConfig.imageAccept || ''}
-          ref={this.inputFile}
-          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
-            e.persist();
-            if (e.target.files && e.target.files.length > 0) {
-              this.onImageChanged(e.target.files[0]);
-            }
-          }}
-        />
+        {!onCustomImageUpload && (
+          <InputFile
+            accept={accept}
+            multiple={!!this.getConfig('multiple')}
+            ref={this.inputFile}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              e.persist();
+              if (e.target.files && e.target.files.length > 0) {
+                this.onImageChanged(e.target.files);
+              }
+            }}
+          />
+        )}
+        <DropList show={this.state.show} onClose={this.hide}>
+          {current && (
+            <ImageEditor
+              key={`${current.start}-${current.end}`}
+              image={current.image}
+              accept={typeof onImageUpload === 'function' || typeof onFileUpload === 'function' ? accept : undefined}
+              onChange={this.handleImageChange}
+              onReplace={this.handleImageReplace}
+              onRemove={this.handleImageRemove}
+            />
+          )}
+        </DropList>
       </span>
     );
   }
@@ -3,6 +3,7 @@ import * as React from 'react';
 
 interface InputFileProps {
   accept: string;
+  multiple?: boolean;
   onChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
 }
 
@@ -46,6 +47,7 @@ class InputFile extends React.Component<InputFileProps, any> {
         type="file"
         ref={this.input}
         accept={this.props.accept}
+        multiple={this.props.multiple}
         style={{
           position: 'absolute',
           zIndex: -1,
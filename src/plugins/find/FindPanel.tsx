@@ -0,0 +1,201 @@
+// FindPanel
+import * as React from 'react';
+import i18n from '../../i18n';
+import { FindOptions } from '../../utils/find';
+import './find.less';
+
+interface FindPanelProps {
+  query: string;
+  replacement: string;
+  options: FindOptions;
+  // 是否显示替换
+  replace: boolean;
+  count: number;
+  // 当前选中的匹配，没有时为-1
+  current: number;
+  invalid: boolean;
+  onQueryChange?: (query: string) => void;
+  onReplacementChange?: (replacement: string) => void;
+  onOptionChange?: (name: keyof FindOptions) => void;
+  onToggleReplace?: () => void;
+  onNext?: () => void;
+  onPrev?: () => void;
+  onReplace?: () => void;
+  onReplaceAll?: () => void;
+  onClose?: () => void;
+}
+
+const OPTIONS: { name: keyof FindOptions; label: string; title: string }[] = [
+  { name: 'caseSensitive', label: 'Aa', title: 'findCaseSensitive' },
+  { name: 'wholeWord', label: 'ab', title: 'findWholeWord' },
+  { name: 'regex', label: '.*', title: 'findRegex' },
+];
+
+class FindPanel extends React.Component<FindPanelProps, any> {
+  private queryInput = React.createRef<HTMLInputElement>();
+  private replacementInput = React.createRef<HTMLInputElement>();
+
+  constructor(props: any) {
+    super(props);
+
+    this.handleQueryChange = this.handleQueryChange.bind(this);
+    this.handleReplacementChange = this.handleReplacementChange.bind(this);
+    this.handleQueryKeyDown = this.handleQueryKeyDown.bind(this);
+    this.handleReplacementKeyDown = this.handleReplacementKeyDown.bind(this);
+  }
+
+  private call(callback?: () => void) {
+    if (typeof callback === 'function') {
+      callback();
+    }
+  }
+
+  // 选中匹配时编辑区域会获得焦点，通过键盘操作时将焦点移回输入框，以便继续操作
+  private refocus(input: React.RefObject<HTMLInputElement>) {
+    window.setTimeout(() => {
+      if (input.current) {
+        input.current.focus();
+      }
+    });
+  }
+
+  private handleQueryChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const { onQueryChange } = this.props;
+    if (typeof onQueryChange === 'function') {
+      onQueryChange(e.target.value);
+    }
+  }
+
+  private handleReplacementChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const { onReplacementChange } = this.props;
+    if (typeof onReplacementChange === 'function') {
+      onReplacementChange(e.target.value);
+    }
+  }
+
+  private handleOptionChange(name: keyof FindOptions) {
+    const { onOptionChange } = this.props;
+    if (typeof onOptionChange === 'function') {
+      onOptionChange(name);
+    }
+  }
+
+  private handleQueryKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    switch (e.key) {
+      case 'Enter':
+        e.preventDefault();
+        this.call(e.shiftKey ? this.props.onPrev : this.props.onNext);
+        this.refocus(this.queryInput);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        this.call(this.props.onClose);
+        break;
+    }
+  }
+
+  private handleReplacementKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    switch (e.key) {
+      case 'Enter':
+        e.preventDefault();
+        this.call(this.props.onReplace);
+        this.refocus(this.replacementInput);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        this.call(this.props.onClose);
+        break;
+    }
+  }
+
+  private renderCount() {
+    const { query, count, current, invalid } = this.props;
+    if (invalid) {
+      return i18n.get('findInvalid');
+    }
+    if (query === '') {
+      return '';
+    }
+    if (count === 0) {
+      return i18n.get('findNoResults');
+    }
+    return current >= 0
+      ? i18n.get('findCurrent', { current: String(current + 1), count: String(count) })
+      : i18n.get('findCount', { count: String(count) });
+  }
+
+  render() {
+    const { query, replacement, options, replace, count, invalid } = this.props;
+    // 阻止点击事件冒泡，避免关闭弹出层；阻止键盘事件冒泡，避免触发编辑器的快捷键
+    return (
+      <div className="find-panel" onClick={e => e.stopPropagation()} onKeyDown={e => e.stopPropagation()}>
+        <div className="find-row">
+          <span
+            className={`find-toggle-replace ${replace ? 'expanded' : ''}`}
+            title={i18n.get('findToggleReplace')}
+            onClick={this.props.onToggleReplace}
+          />
+          <input
+            ref={this.queryInput}
+            className={`find-input find-query ${invalid ? 'invalid' : ''}`}
+            type="text"
+            value={query}
+            placeholder={i18n.get('findQuery')}
+            autoFocus={true}
+            onFocus={e => e.target.select()}
+            onChange={this.handleQueryChange}
+            onKeyDown={this.handleQueryKeyDown}
+          />
+          {OPTIONS.map(it => (
+            <span
+              key={it.name}
+              className={`find-option find-option-${it.name} ${options[it.name] ? 'active' : ''}`}
+              title={i18n.get(it.title)}
+              onClick={this.handleOptionChange.bind(this, it.name)}
+            >
+              {it.label}
+            </span>
+          ))}
+          <span className="find-count">{this.renderCount()}</span>
+          <span
+            className={`find-button find-prev ${count === 0 ? 'disabled' : ''}`}
+            title={i18n.get('findPrev')}
+            onClick={this.props.onPrev}
+          />
+          <span
+            className={`find-button find-next ${count === 0 ? 'disabled' : ''}`}
+            title={i18n.get('findNext')}
+            onClick={this.props.onNext}
+          />
+          <span className="find-button find-close" title={i18n.get('findClose')} onClick={this.props.onClose} />
+        </div>
+        {replace && (
+          <div className="find-row find-replace-row">
+            <input
+              ref={this.replacementInput}
+              className="find-input find-replacement"
+              type="text"
+              value={replacement}
+              placeholder={i18n.get('findReplacement')}
+              onChange={this.handleReplacementChange}
+              onKeyDown={this.handleReplacementKeyDown}
+            />
+            <span
+              className={`find-action find-replace ${count === 0 ? 'disabled' : ''}`}
+              onClick={this.props.onReplace}
+            >
+              {i18n.get('findReplace')}
+            </span>
+            <span
+              className={`find-action find-replace-all ${count === 0 ? 'disabled' : ''}`}
+              onClick={this.props.onReplaceAll}
+            >
+              {i18n.get('findReplaceAll')}
+            </span>
+          </div>
+        )}
+      </div>
+    );
+  }
+}
+export default FindPanel;
@@ -0,0 +1,279 @@
+import * as React from 'react';
+import DropList from '../../components/DropList';
+import Icon from '../../components/Icon';
+import i18n from '../../i18n';
+import { KeyboardEventListener } from '../../share/var';
+import { findMatches, FindMatch, FindOptions, getFindRegExp, getReplacement } from '../../utils/find';
+import { getLineTops } from '../../utils/scroll';
+import { PluginComponent } from '../Plugin';
+import FindPanel from './FindPanel';
+
+interface State {
+  show: boolean;
+  // 每次打开时重新创建查找面板
+  key: number;
+  // 是否显示替换
+  replace: boolean;
+  query: string;
+  replacement: string;
+  options: FindOptions;
+  matches: FindMatch[];
+  // 当前选中的匹配，没有时为-1
+  current: number;
+}
+
+export default class Find extends PluginComponent<State> {
+  static pluginName = 'find';
+
+  private handleKeyboards: KeyboardEventListener[];
+
+  constructor(props: any) {
+    super(props);
+
+    this.handleClick = this.handleClick.bind(this);
+    this.handleChange = this.handleChange.bind(this);
+    this.handleQueryChange = this.handleQueryChange.bind(this);
+    this.handleReplacementChange = this.handleReplacementChange.bind(this);
+    this.handleOptionChange = this.handleOptionChange.bind(this);
+    this.handleToggleReplace = this.handleToggleReplace.bind(this);
+    this.handleNext = this.handleNext.bind(this);
+    this.handlePrev = this.handlePrev.bind(this);
+    this.handleReplace = this.handleReplace.bind(this);
+    this.handleReplaceAll = this.handleReplaceAll.bind(this);
+    this.handleClose = this.handleClose.bind(this);
+
+    this.state = {
+      show: false,
+      key: 0,
+      replace: false,
+      query: '',
+      replacement: '',
+      options: {},
+      matches: [],
+      current: -1,
+    };
+
+    this.handleKeyboards = [
+      { key: 'f', keyCode: 70, aliasCommand: true, withKey: ['ctrlKey'], callback: () => this.show(false) },
+      { key: 'h', keyCode: 72, withKey: ['ctrlKey'], callback: () => this.show(true) },
+    ];
+  }
+
+  private find(query: string, options: FindOptions, text: string = this.editor.getMdValue()) {
+    return findMatches(text, query, options);
+  }
+
+  private show(replace: boolean) {
+    // 隐藏菜单栏时无法显示查找面板，交给浏览器处理
+    if (!this.editor.getView().menu) {
+      return false;
+    }
+    const selected = this.editor.getSelection().text;
+    // 选中单行文字时，作为查找的文字
+    const query = selected !== '' && !selected.includes('\n') ? selected : this.state.query;
+    this.setState({
+      show: true,
+      key: this.state.key + 1,
+      replace,
+      query,
+      matches: this.find(query, this.state.options),
+      current: -1,
+    });
+    return true;
+  }
+
+  private handleClick() {
+    if (this.state.show) {
+      this.setState({ show: false });
+    } else {
+      this.show(this.state.replace);
+    }
+  }
+
+  private handleClose() {
+    this.setState({ show: false });
+    // 编辑区域获得焦点，保留选中的匹配
+    this.editor.setSelection(this.editor.getSelection());
+  }
+
+  // 内容改变时重新查找
+  private handleChange(value: string) {
+    if (this.state.show) {
+      this.setState({
+        matches: this.find(this.state.query, this.state.options, value),
+        current: -1,
+      });
+    }
+  }
+
+  private handleQueryChange(query: string) {
+    this.setState({
+      query,
+      matches: this.find(query, this.state.options),
+      current: -1,
+    });
+  }
+
+  private handleReplacementChange(replacement: string) {
+    this.setState({ replacement });
+  }
+
+  private handleOptionChange(name: keyof FindOptions) {
+    const options = { ...this.state.options, [name]: !this.state.options[name] };
+    this.setState({
+      options,
+      matches: this.find(this.state.query, options),
+      current: -1,
+    });
+  }
+
+  private handleToggleReplace() {
+    this.setState({ replace: !this.state.replace });
+  }
+
+  /**
+   * 获取选区之后（或之前）的匹配，到达结尾时从头开始
+   */
+  private getNextIndex(matches: FindMatch[], step: 1 | -1) {
+    if (matches.length === 0) {
+      return -1;
+    }
+    const selection = this.editor.getSelection();
+    if (step > 0) {
+      const index = matches.findIndex(it => it.start >= selection.end);
+      return index >= 0 ? index : 0;
+    }
+    for (let i = matches.length - 1; i >= 0; i--) {
+      if (matches[i].end <= selection.start) {
+        return i;
+      }
+    }
+    return matches.length - 1;
+  }
+
+  // 不在可见区域时，将编辑区域滚动到匹配处
+  private scrollTo(text: string, position: number) {
+    const textarea = this.editor.getMdElement();
+    if (!textarea) {
+      return;
+    }
+    const before = text.slice(0, position);
+    const top = getLineTops(textarea, before)[before.split('\n').length - 1] || 0;
+    if (top < textarea.scrollTop || top >= textarea.scrollTop + textarea.clientHeight) {
+      textarea.scrollTop = Math.max(0, top - textarea.clientHeight / 3);
+    }
+  }
+
+  private select(matches: FindMatch[], index: number) {
+    const match = matches[index];
+    if (match) {
+      this.editor.setSelection({ start: match.start, end: match.end });
+      this.scrollTo(this.editor.getMdValue(), match.start);
+    }
+    this.setState({ matches, current: index });
+  }
+
+  private handleNext() {
+    const { matches } = this.state;
+    this.select(matches, this.getNextIndex(matches, 1));
+  }
+
+  private handlePrev() {
+    const { matches } = this.state;
+    this.select(matches, this.getNextIndex(matches, -1));
+  }
+
+  // 替换选中的匹配，并选中下一个匹配；没有选中匹配时，只选中下一个匹配
+  private handleReplace() {
+    const { query, replacement, options } = this.state;
+    const matches = this.find(query, options);
+    const selection = this.editor.getSelection();
+    const match = matches.find(it => it.start === selection.start && it.end === selection.end);
+    if (!match) {
+      this.select(matches, this.getNextIndex(matches, 1));
+      return;
+    }
+    const value = getReplacement(match, replacement, options);
+    const result = this.editor.transact(() => {
+      this.editor.insertText(value, true, { start: value.length, end: value.length });
+      const text = this.editor.getMdValue();
+      const next = this.find(query, options, text);
+      const index = this.getNextIndex(next, 1);
+      if (next[index]) {
+        this.editor.setSelection({ start: next[index].start, end: next[index].end });
+      }
+      return { text, next, index };
+    });
+    // 事务结束后才会更新编辑区域的内容和选区，这里只需要滚动
+    if (result.next[result.index]) {
+      this.scrollTo(result.text, result.next[result.index].start);
+    }
+    this.setState({ matches: result.next, current: result.index });
+  }
+
+  // 在一个事务中替换所有匹配，撤销时作为一步
+  private handleReplaceAll() {
+    const { query, replacement, options } = this.state;
+    const matches = this.find(query, options);
+    if (matches.length === 0) {
+      return;
+    }
+    this.editor.transact(() => {
+      // 从后向前替换，避免位置变化
+      for (let i = matches.length - 1; i >= 0; i--) {
+        const it = matches[i];
+        this.editor.setSelection({ start: it.start, end: it.end });
+        this.editor.insertText(getReplacement(it, replacement, options), true);
+      }
+    });
+  }
+
+  componentDidMount() {
+    if (this.editorConfig.shortcuts) {
+      this.editor.onKeyboard(this.handleKeyboards);
+    }
+    this.editor.on('change', this.handleChange);
+  }
+
+  componentWillUnmount() {
+    this.editor.offKeyboard(this.handleKeyboards);
+    this.editor.off('change', this.handleChange);
+  }
+
+  render() {
+    const { show, key, replace, query, replacement, options, matches, current } = this.state;
+    return (
+      <span
+        className="button button-type-find"
+        title={i18n.get('btnFind')}
+        onClick={this.handleClick}
+        style={{ position: 'relative' }}
+      >
+        <Icon type="find" />
+        <DropList show={show} onClose={this.handleClose}>
+          {show && (
+            <FindPanel
+              key={key}
+              query={query}
+              replacement={replacement}
+              options={options}
+              replace={replace}
+              count={matches.length}
+              current={current}
+              invalid={query !== '' && !getFindRegExp(query, options)}
+              onQueryChange={this.handleQueryChange}
+              onReplacementChange={this.handleReplacementChange}
+              onOptionChange={this.handleOptionChange}
+              onToggleReplace={this.handleToggleReplace}
+              onNext={this.handleNext}
+              onPrev={this.handlePrev}
+              onReplace={this.handleReplace}
+              onReplaceAll={this.handleReplaceAll}
+              onClose={this.handleClose}
+            />
+          )}
+        </DropList>
+      </span>
+    );
+  }
+}
@@ -0,0 +1,237 @@
+// LinkEditor
+import * as React from 'react';
+import i18n from '../../i18n';
+import { LinkSuggestion } from '../../share/var';
+import { isValidLink } from '../../utils/link';
+import './link.less';
+
+interface LinkEditorProps {
+  url: string;
+  title: string;
+  // 编辑已有链接时可以取消链接
+  editing?: boolean;
+  onSuggest?: (query: string) => Promise<LinkSuggestion[]>;
+  onChange?: (url: string, title: string) => void;
+  onRemove?: () => void;
+  onCancel?: () => void;
+}
+
+interface LinkEditorState {
+  url: string;
+  title: string;
+  // 输入过地址或提交过之后才显示错误
+  touched: boolean;
+  suggestions: LinkSuggestion[];
+  active: number;
+}
+
+// 输入停止一段时间后再获取建议
+const SUGGEST_DELAY = 200;
+
+class LinkEditor extends React.Component<LinkEditorProps, LinkEditorState> {
+  private timerId?: number;
+  // 只使用最后一次请求的结果
+  private suggestId = 0;
+
+  constructor(props: any) {
+    super(props);
+
+    this.handleUrlChange = this.handleUrlChange.bind(this);
+    this.handleTitleChange = this.handleTitleChange.bind(this);
+    this.handleKeyDown = this.handleKeyDown.bind(this);
+    this.handleSubmit = this.handleSubmit.bind(this);
+    this.handleRemove = this.handleRemove.bind(this);
+    this.handleCancel = this.handleCancel.bind(this);
+
+    this.state = {
+      url: props.url,
+      title: props.title,
+      touched: false,
+      suggestions: [],
+      active: -1,
+    };
+  }
+
+  componentDidUpdate(prevProps: LinkEditorProps) {
+    // 未修改过地址时，使用新的默认地址（如读取剪贴板的结果）
+    if (prevProps.url !== this.props.url && this.state.url === prevProps.url) {
+      this.setState({ url: this.props.url });
+    }
+  }
+
+  componentWillUnmount() {
+    if (this.timerId) {
+      window.clearTimeout(this.timerId);
+    }
+    this.suggestId++;
+  }
+
+  private suggest(query: string) {
+    const { onSuggest } = this.props;
+    if (this.timerId) {
+      window.clearTimeout(this.timerId);
+      this.timerId = undefined;
+    }
+    const id = ++this.suggestId;
+    if (typeof onSuggest !== 'function' || query.trim() === '') {
+      this.setState({ suggestions: [], active: -1 });
+      return;
+    }
+    this.timerId = window.setTimeout(() => {
+      this.timerId = undefined;
+      onSuggest(query)
+        .then(suggestions => {
+          if (id === this.suggestId) {
+            this.setState({ suggestions: suggestions || [], active: -1 });
+          }
+        })
+        .catch(() => {
+          if (id === this.suggestId) {
+            this.setState({ suggestions: [], active: -1 });
+          }
+        });
+    }, SUGGEST_DELAY);
+  }
+
+  private handleUrlChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const url = e.target.value;
+    this.setState({ url, touched: true });
+    this.suggest(url);
+  }
+
+  private handleTitleChange(e: React.ChangeEvent<HTMLInputElement>) {
+    this.setState({ title: e.target.value });
+  }
+
+  private handleSelect(it: LinkSuggestion) {
+    this.suggestId++;
+    this.setState(state => ({
+      url: it.url,
+      // 不覆盖已经输入的标题
+      title: state.title || it.title || '',
+      touched: true,
+      suggestions: [],
+      active: -1,
+    }));
+  }
+
+  private handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    const { suggestions, active } = this.state;
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp':
+        if (suggestions.length > 0) {
+          e.preventDefault();
+          // 在建议和输入框（-1）之间循环
+          const count = suggestions.length + 1;
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          this.setState({ active: ((active + 1 + step + count) % count) - 1 });
+        }
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (active >= 0 && suggestions[active]) {
+          this.handleSelect(suggestions[active]);
+        } else {
+          this.handleSubmit();
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        if (suggestions.length > 0) {
+          this.suggestId++;
+          this.setState({ suggestions: [], active: -1 });
+        } else {
+          this.handleCancel();
+        }
+        break;
+    }
+  }
+
+  private handleSubmit() {
+    const { onChange } = this.props;
+    const { url, title } = this.state;
+    if (!isValidLink(url)) {
+      this.setState({ touched: true });
+      return;
+    }
+    if (typeof onChange === 'function') {
+      onChange(url.trim(), title.trim());
+    }
+  }
+
+  private handleRemove() {
+    const { onRemove } = this.props;
+    if (typeof onRemove === 'function') {
+      onRemove();
+    }
+  }
+
+  private handleCancel() {
+    const { onCancel } = this.props;
+    if (typeof onCancel === 'function') {
+      onCancel();
+    }
+  }
+
+  render() {
+    const { editing } = this.props;
+    const { url, title, touched, suggestions, active } = this.state;
+    const isInvalid = touched && !isValidLink(url);
+    // 阻止点击事件冒泡，避免关闭弹出层；阻止键盘事件冒泡，避免触发编辑器的快捷键
+    return (
+      <div className="link-editor" onClick={e => e.stopPropagation()} onKeyDown={e => e.stopPropagation()}>
+        <label className="link-editor-field">
+          <span className="link-editor-label">{i18n.get('linkUrl')}</span>
+          <input
+            className={`link-editor-input link-editor-url ${isInvalid ? 'invalid' : ''}`}
+            type="text"
+            value={url}
+            autoFocus={true}
+            onChange={this.handleUrlChange}
+            onKeyDown={this.handleKeyDown}
+          />
+        </label>
+        {suggestions.length > 0 && (
+          <ul className="link-editor-suggestions">
+            {suggestions.map((it, i) => (
+              <li
+                key={it.url}
+                className={`link-editor-suggestion ${i === active ? 'active' : ''}`}
+                onClick={this.handleSelect.bind(this, it)}
+              >
+                {it.title ? <span className="link-editor-suggestion-title">{it.title}</span> : null}
+                <span className="link-editor-suggestion-url">{it.url}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {isInvalid && <div className="link-editor-error">{i18n.get('linkInvalid')}</div>}
+        <label className="link-editor-field">
+          <span className="link-editor-label">{i18n.get('linkTitle')}</span>
+          <input
+            className="link-editor-input link-editor-title"
+            type="text"
+            value={title}
+            onChange={this.handleTitleChange}
+            onKeyDown={this.handleKeyDown}
+          />
+        </label>
+        <div className="link-editor-actions">
+          <span className={`link-editor-item linkSave ${isInvalid ? 'disabled' : ''}`} onClick={this.handleSubmit}>
+            {i18n.get('linkSave')}
+          </span>
+          {editing && (
+            <span className="link-editor-item linkRemove" onClick={this.handleRemove}>
+              {i18n.get('linkRemove')}
+            </span>
+          )}
+          <span className="link-editor-item linkCancel" onClick={this.handleCancel}>
+            {i18n.get('linkCancel')}
+          </span>
+        </div>
+      </div>
+    );
+  }
+}
+export default LinkEditor;
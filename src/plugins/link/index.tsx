@@ -0,0 +1,213 @@
+import * as React from 'react';
+import DropList from '../../components/DropList';
+import Icon from '../../components/Icon';
+import i18n from '../../i18n';
+import { initialSelection, KeyboardEventListener, Selection } from '../../share/var';
+import getDecorated from '../../utils/decorate';
+import { formatLink, getLinkAt, LinkRange } from '../../utils/link';
+import { isUrl } from '../../utils/tool';
+import { PluginComponent } from '../Plugin';
+import LinkEditor from './LinkEditor';
+
+interface State {
+  show: boolean;
+  // 每次打开时重新创建链接编辑器
+  key: number;
+  // 打开时的选区
+  selection: Selection;
+  // 光标所在的链接
+  current?: LinkRange;
+  url: string;
+  title: string;
+}
+
+export default class Link extends PluginComponent<State> {
+  static pluginName = 'link';
+  static defaultConfig = {
+    // 没有选中网址时，使用剪贴板中的网址
+    clipboard: true,
+  };
+
+  private handleKeyboard: KeyboardEventListener;
+
+  constructor(props: any) {
+    super(props);
+
+    this.handlePaste = this.handlePaste.bind(this);
+    this.show = this.show.bind(this);
+    this.hide = this.hide.bind(this);
+    this.handleChange = this.handleChange.bind(this);
+    this.handleRemove = this.handleRemove.bind(this);
+    this.handleCancel = this.handleCancel.bind(this);
+
+    this.state = {
+      show: false,
+      key: 0,
+      selection: initialSelection,
+      url: '',
+      title: '',
+    };
+
+    this.handleKeyboard = {
+      key: 'k',
+      keyCode: 75,
+      aliasCommand: true,
+      withKey: ['ctrlKey'],
+      callback: () => this.show(),
+    };
+  }
+
+  // 选中文字时粘贴网址，生成链接
+  private handlePaste(text: string, selection: Selection) {
+    const url = text.trim();
+    const target = selection.text;
+    if (target.trim() === '' || target.includes('\n') || !isUrl(url) || isUrl(target.trim())) {
+      return undefined;
+    }
+    return getDecorated(target, 'link', { linkUrl: url }).text;
+  }
+
+  private show() {
+    // 隐藏菜单栏时无法显示编辑器，直接插入链接
+    if (!this.editor.getView().menu) {
+      this.editor.insertMarkdown('link');
+      return;
+    }
+    const key = this.state.key + 1;
+    const selection = this.editor.getSelection();
+    const current = getLinkAt(this.editor.getMdValue(), selection.start);
+    if (current && selection.end <= current.end) {
+      this.setState({
+        show: true,
+        key,
+        selection,
+        current,
+        url: current.link.url,
+        title: current.link.title,
+      });
+      return;
+    }
+    // 选中的是网址时，作为链接地址
+    const selected = selection.text.trim();
+    const url = isUrl(selected) ? selected : this.editorConfig.linkUrl || '';
+    this.setState({
+      show: true,
+      key,
+      selection,
+      current: undefined,
+      url,
+      title: '',
+    });
+    if (url === '' && this.getConfig('clipboard')) {
+      this.readClipboard(key);
+    }
+  }
+
+  private readClipboard(key: number) {
+    const clipboard = typeof navigator === 'undefined' ? undefined : navigator.clipboard;
+    if (!clipboard || typeof clipboard.readText !== 'function') {
+      return;
+    }
+    clipboard
+      .readText()
+      .then(text => {
+        const url = text.trim();
+        // 编辑器已经关闭或重新打开时不处理
+        if (isUrl(url) && this.state.show && this.state.key === key) {
+          this.setState({ url });
+        }
+      })
+      // 没有权限时忽略
+      .catch(() => {});
+  }
+
+  private hide() {
+    this.setState({
+      show: false,
+    });
+  }
+
+  /**
+   * 替换选区或链接，并隐藏编辑器
+   * @param newSelection 相对于插入位置的选区，默认为插入内容之后
+   */
+  private replace(range: { start: number; end: number }, text: string, newSelection?: { start: number; end: number }) {
+    this.editor.setSelection({
+      start: range.start,
+      end: range.end,
+    });
+    this.editor.insertText(
+      text,
+      true,
+      newSelection || {
+        start: text.length,
+        end: text.length,
+      },
+    );
+    this.hide();
+  }
+
+  private handleChange(url: string, title: string) {
+    const { current, selection } = this.state;
+    if (current) {
+      this.replace(current, formatLink({ ...current.link, url, title }));
+      return;
+    }
+    const text = selection.text;
+    // 没有选中文字时，光标位于链接文字处
+    this.replace(selection, formatLink({ text, url, title }), text === '' ? { start: 1, end: 1 } : undefined);
+  }
+
+  // 取消链接，保留链接文字
+  private handleRemove() {
+    const { current } = this.state;
+    if (current) {
+      this.replace(current, current.link.text);
+    }
+  }
+
+  private handleCancel() {
+    this.editor.setSelection(this.state.selection);
+    this.hide();
+  }
+
+  componentDidMount() {
+    if (this.editorConfig.shortcuts) {
+      this.editor.onKeyboard(this.handleKeyboard);
+    }
+    this.editor.onPaste(this.handlePaste);
+  }
+
+  componentWillUnmount() {
+    this.editor.offKeyboard(this.handleKeyboard);
+    this.editor.offPaste(this.handlePaste);
+  }
+
+  render() {
+    const { show, key, current, url, title } = this.state;
+    return (
+      <span
+        className="button button-type-link"
+        title={i18n.get('btnLink')}
+        onClick={this.show}
+        style={{ position: 'relative' }}
+      >
+        <Icon type="link" />
+        <DropList show={show} onClose={this.hide}>
+          {show && (
+            <LinkEditor
+              key={key}
+              url={url}
+              title={title}
+              editing={!!current}
+              onSuggest={this.editorConfig.onLinkSuggest}
+              onChange={this.handleChange}
+              onRemove={this.handleRemove}
+              onCancel={this.handleCancel}
+            />
+          )}
+        </DropList>
+      </span>
+    );
+  }
+}
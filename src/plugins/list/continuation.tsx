@@ -0,0 +1,130 @@
+/**
+ * Continue list items and quotes when user press Enter.
+ * Press Enter on an empty item will end the list, or outdent it if it is nested.
+ */
+
+import * as React from 'react';
+import { KeyboardEventListener } from '../../share/var';
+import { getListItem, getListPrefix, getNextListPrefix, ListItem } from '../../utils/list';
+import { PluginComponent } from '../Plugin';
+
+export default class ListContinuation extends PluginComponent {
+  static pluginName = 'list-continuation';
+
+  private handleKeyboard: KeyboardEventListener;
+
+  constructor(props: any) {
+    super(props);
+
+    this.handleKeyboard = {
+      key: 'Enter',
+      keyCode: 13,
+      callback: e => this.handleEnter(e),
+    };
+  }
+
+  private handleEnter(e: React.KeyboardEvent<HTMLDivElement>) {
+    // 输入法正在输入时，不做处理
+    if (e.nativeEvent && (e.nativeEvent as KeyboardEvent).isComposing) {
+      return false;
+    }
+    const selection = this.editor.getSelection();
+    if (selection.start !== selection.end) {
+      return false;
+    }
+    const text = this.editor.getMdValue();
+    const lineStart = text.slice(0, selection.start).lastIndexOf('\n') + 1;
+    const lineEnd = text.indexOf('\n', selection.start);
+    const line = text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd);
+    const item = getListItem(line);
+    if (!item) {
+      return false;
+    }
+    const prefix = getListPrefix(item);
+    // 光标在标记之中时，按默认处理
+    if (selection.start - lineStart < prefix.length) {
+      return false;
+    }
+
+    if (item.content.trim() === '') {
+      // 空的列表项：结束列表，或者减少一级缩进
+      const newPrefix = this.getOutdentPrefix(item, text.slice(0, lineStart));
+      this.editor.setSelection({
+        start: lineStart,
+        end: lineStart + line.length,
+      });
+      this.editor.insertText(newPrefix, true, {
+        start: newPrefix.length,
+        end: newPrefix.length,
+      });
+      return true;
+    }
+
+    const next = `\n${getNextListPrefix(item)}`;
+    this.editor.insertText(next, false, {
+      start: next.length,
+      end: next.length,
+    });
+    return true;
+  }
+
+  /**
+   * 减少一级缩进，缩进的宽度与tab-insert插件的tabMapValue一致
+   */
+  private outdent(indent: string) {
+    if (indent.charAt(0) === '\t') {
+      return indent.slice(1);
+    }
+    const config = this.editor.getPluginConfig('tab-insert');
+    const tabMapValue = config ? config.tabMapValue : 1;
+    const spaces = (indent.match(/^ */) || [''])[0].length;
+    return indent.slice(Math.min(spaces, tabMapValue === 1 ? 4 : tabMapValue));
+  }
+
+  /**
+   * 获取减少一级缩进后的前缀：嵌套的列表项会变成上一级列表的下一项，否则结束列表
+   * @param item 当前列表项
+   * @param before 当前行之前的文字
+   */
+  private getOutdentPrefix(item: ListItem, before: string) {
+    if (item.bullet !== '' && item.indent !== '') {
+      const indent = this.outdent(item.indent);
+      const lines = before.split('\n');
+      for (let i = lines.length - 1; i >= 0; i--) {
+        const parent = getListItem(lines[i]);
+        if (!parent || parent.bullet === '' || parent.quote !== item.quote) {
+          // 空行不会中断列表
+          if (lines[i].trim() === '') {
+            continue;
+          }
+          break;
+        }
+        if (parent.indent.length <= indent.length) {
+          if (parent.indent === indent) {
+            return getNextListPrefix(parent);
+          }
+          break;
+        }
+      }
+      // 上一级没有列表项时，只减少缩进
+      return getListPrefix({ ...item, indent, task: item.task ? '[ ] ' : '' });
+    }
+    // 引用中的列表，结束列表后保留引用；空的引用会结束引用
+    if (item.bullet !== '') {
+      return item.quote;
+    }
+    return '';
+  }
+
+  componentDidMount() {
+    this.editor.onKeyboard(this.handleKeyboard);
+  }
+
+  componentWillUnmount() {
+    this.editor.offKeyboard(this.handleKeyboard);
+  }
+
+  render() {
+    return <span />;
+  }
+}
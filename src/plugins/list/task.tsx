@@ -0,0 +1,126 @@
+import * as React from 'react';
+import Icon from '../../components/Icon';
+import i18n from '../../i18n';
+import { KeyboardEventListener } from '../../share/var';
+import { getListItem } from '../../utils/list';
+import { PluginComponent } from '../Plugin';
+import './task.less';
+
+/**
+ * 切换第index个任务的状态（不包括代码块中的）
+ * @returns {string | undefined} 切换后的文字，找不到任务时返回undefined
+ */
+function toggleTask(text: string, index: number) {
+  const lines = text.split('\n');
+  let count = 0;
+  let fence = '';
+  for (let i = 0; i < lines.length; i++) {
+    const fenceMatch = lines[i].match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      if (fence === '') {
+        fence = fenceMatch[1];
+      } else if (fence === fenceMatch[1]) {
+        fence = '';
+      }
+      continue;
+    }
+    const item = fence === '' ? getListItem(lines[i]) : undefined;
+    if (!item || item.task === '') {
+      continue;
+    }
+    if (count++ === index) {
+      const taskStart = lines[i].length - item.content.length - item.task.length;
+      const checked = item.task.charAt(1) === ' ' ? 'x' : ' ';
+      lines[i] = `${lines[i].slice(0, taskStart + 1)}${checked}${lines[i].slice(taskStart + 2)}`;
+      return lines.join('\n');
+    }
+  }
+  return undefined;
+}
+
+export default class ListTask extends PluginComponent {
+  static pluginName = 'list-task';
+
+  private handleKeyboard: KeyboardEventListener;
+
+  constructor(props: any) {
+    super(props);
+
+    this.handlePreviewClick = this.handlePreviewClick.bind(this);
+
+    this.handleKeyboard = {
+      key: '9',
+      keyCode: 57,
+      withKey: ['ctrlKey', 'shiftKey'],
+      aliasCommand: true,
+      callback: () => this.editor.insertMarkdown('task'),
+    };
+  }
+
+  /**
+   * 获取被点击的复选框
+   * 禁用的复选框（如markdown-it-task-lists默认渲染的）不会触发点击事件，
+   * 所以样式中让点击穿过禁用的复选框，落在所在的列表项上，再根据位置判断
+   */
+  private getClickedCheckbox(e: React.MouseEvent<HTMLDivElement>) {
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'INPUT' && (target as HTMLInputElement).type === 'checkbox') {
+      return target;
+    }
+    if (target.tagName !== 'LI') {
+      return undefined;
+    }
+    const checkbox: HTMLInputElement | undefined = Array.prototype.find.call(
+      target.children,
+      (it: HTMLInputElement) => it.tagName === 'INPUT' && it.type === 'checkbox' && it.disabled,
+    );
+    if (checkbox) {
+      const rect = checkbox.getBoundingClientRect();
+      if (e.clientX >= rect.left && e.clientX <= rect.right && e.clientY >= rect.top && e.clientY <= rect.bottom) {
+        return checkbox;
+      }
+    }
+    return undefined;
+  }
+
+  // 点击预览区域中的复选框时，修改对应的任务状态
+  private handlePreviewClick(e: React.MouseEvent<HTMLDivElement>) {
+    const checkbox = this.getClickedCheckbox(e);
+    const preview = this.editor.getHtmlElement();
+    if (!preview || !checkbox) {
+      return;
+    }
+    const checkboxes = preview.querySelectorAll('input[type="checkbox"]');
+    const index = Array.prototype.indexOf.call(checkboxes, checkbox);
+    const text = toggleTask(this.editor.getMdValue(), index);
+    if (typeof text !== 'undefined') {
+      // 复选框的状态由重新渲染的结果决定
+      e.preventDefault();
+      this.editor.setText(text);
+    }
+  }
+
+  componentDidMount() {
+    if (this.editorConfig.shortcuts) {
+      this.editor.onKeyboard(this.handleKeyboard);
+    }
+    this.editor.on('previewclick', this.handlePreviewClick);
+  }
+
+  componentWillUnmount() {
+    this.editor.offKeyboard(this.handleKeyboard);
+    this.editor.off('previewclick', this.handlePreviewClick);
+  }
+
+  render() {
+    return (
+      <span
+        className="button button-type-task"
+        title={i18n.get('btnTask')}
+        onClick={() => this.editor.insertMarkdown('task')}
+      >
+        <Icon type="list-task" />
+      </span>
+    );
+  }
+}
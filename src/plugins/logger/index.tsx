@@ -14,6 +14,7 @@ export default class Logger extends PluginComponent {
   private timerId?: number;
   private handleKeyboards: KeyboardEventListener[] = [];
   private lastPop: string | null = null;
+  private pendingValue: string | null = null;
 
   constructor(props: any) {
     super(props);
@@ -32,11 +33,12 @@ export default class Logger extends PluginComponent {
   }
 
   private handleUndo() {
+    // 未记录的修改会由logger先记录下来，所以这里可以直接取消计时
+    this.pause();
     const last = this.logger.undo(this.editor.getMdValue());
     if (typeof last !== 'undefined') {
-      this.pause();
-      this.lastPop = last;
-      this.editor.setText(last);
+      this.lastPop = last.value;
+      this.editor.setText(last.value, undefined, last.selection);
       this.forceUpdate();
     }
   }
@@ -44,8 +46,8 @@ export default class Logger extends PluginComponent {
   private handleRedo() {
     const last = this.logger.redo();
     if (typeof last !== 'undefined') {
-      this.lastPop = last;
-      this.editor.setText(last);
+      this.lastPop = last.value;
+      this.editor.setText(last.value, undefined, last.selection);
       this.forceUpdate();
     }
   }
@@ -56,6 +58,11 @@ export default class Logger extends PluginComponent {
     }
     this.logger.cleanRedo();
     if (isChange) {
+      // 通过API修改（包括事务）时立即记录，在此之前的输入单独作为一步
+      if (this.timerId && this.pendingValue !== null && this.logger.getLast() !== this.pendingValue) {
+        this.logger.push(this.pendingValue);
+      }
+      this.pause();
       this.logger.push(value);
       this.lastPop = null;
       this.forceUpdate();
@@ -65,6 +72,7 @@ export default class Logger extends PluginComponent {
       window.clearTimeout(this.timerId);
       this.timerId = 0;
     }
+    this.pendingValue = value;
     this.timerId = window.setTimeout(() => {
       if (this.logger.getLast() !== value) {
         this.logger.push(value);
@@ -73,6 +81,7 @@ export default class Logger extends PluginComponent {
       }
       window.clearTimeout(this.timerId);
       this.timerId = 0;
+      this.pendingValue = null;
     }, LOGGER_INTERVAL);
   }
 
@@ -87,19 +96,22 @@ export default class Logger extends PluginComponent {
   }
 
   componentWillUnmount() {
+    // 卸载后不再记录
+    this.pause();
     this.editor.off('change', this.handleChange);
     this.handleKeyboards.forEach(it => this.editor.offKeyboard(it));
   }
 
   pause() {
     if (this.timerId) {
-      clearInterval(this.timerId);
+      window.clearTimeout(this.timerId);
       this.timerId = undefined;
     }
+    this.pendingValue = null;
   }
 
   render() {
-    const hasUndo = this.logger.getUndoCount() > 1 || this.logger.initValue !== this.editor.getMdValue();
+    const hasUndo = this.logger.getUndoCount() > 0 || this.logger.initValue !== this.editor.getMdValue();
     const hasRedo = this.logger.getRedoCount() > 0;
     return (
       <React.Fragment>
@@ -3,19 +3,86 @@
  */
 
 const MAX_LOG_SIZE = 100;
+// 历史记录最多占用的空间（字节），按每个字符两个字节计算
+const MAX_LOG_BYTES = 2 * 1024 * 1024;
+
+export interface LoggerSelection {
+  start: number;
+  end: number;
+}
+
+/**
+ * 记录的是相对于上一个值的补丁：从start开始，把removed替换为inserted
+ */
+export interface LoggerPatch {
+  start: number;
+  removed: string;
+  inserted: string;
+}
+
+export interface LoggerState {
+  value: string;
+  selection?: LoggerSelection;
+}
+
+/**
+ * 根据前后两个值的差异，计算出补丁
+ */
+function getPatch(prev: string, next: string): LoggerPatch {
+  const maxLength = Math.min(prev.length, next.length);
+  let prefix = 0;
+  while (prefix < maxLength && prev.charCodeAt(prefix) === next.charCodeAt(prefix)) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < maxLength - prefix &&
+    prev.charCodeAt(prev.length - suffix - 1) === next.charCodeAt(next.length - suffix - 1)
+  ) {
+    suffix++;
+  }
+  return {
+    start: prefix,
+    removed: prev.slice(prefix, prev.length - suffix),
+    inserted: next.slice(prefix, next.length - suffix),
+  };
+}
+
+function applyPatch(value: string, patch: LoggerPatch) {
+  return value.slice(0, patch.start) + patch.inserted + value.slice(patch.start + patch.removed.length);
+}
+
+function revertPatch(value: string, patch: LoggerPatch) {
+  return value.slice(0, patch.start) + patch.removed + value.slice(patch.start + patch.inserted.length);
+}
+
+function getPatchSize(patch: LoggerPatch) {
+  return (patch.removed.length + patch.inserted.length) * 2;
+}
 
 class Logger {
-  private record: string[] = [];
+  private record: LoggerPatch[] = [];
+
+  private recycle: LoggerPatch[] = [];
 
-  private recycle: string[] = [];
+  // 只保存当前的完整值，历史记录都通过补丁计算
+  private value: string = '';
+
+  private size: number = 0;
 
   initValue: string = '';
 
   push(val: string) {
-    const result = this.record.push(val);
+    const patch = getPatch(this.getCurrent(), val);
+    const result = this.record.push(patch);
+    this.value = val;
+    this.size += getPatchSize(patch);
     // 如果超过了最长限制，把之前的清理掉，避免造成内存浪费
-    while (this.record.length > MAX_LOG_SIZE) {
-      this.record.shift();
+    // 最新的一条总是保留，以便能够撤销
+    while (this.record.length > MAX_LOG_SIZE || (this.size > MAX_LOG_BYTES && this.record.length > 1)) {
+      const removed = this.record.shift()!;
+      this.initValue = applyPatch(this.initValue, removed);
+      this.size -= getPatchSize(removed);
     }
     return result;
   }
@@ -24,48 +91,61 @@ class Logger {
     return this.record;
   }
 
-  getLast(): string {
-    const length = this.record.length;
-    return this.record[length - 1];
+  getLast(): string | undefined {
+    return this.record.length > 0 ? this.value : undefined;
+  }
+
+  /**
+   * 获取当前记录的值，没有记录时为初始值
+   */
+  private getCurrent(): string {
+    return this.record.length > 0 ? this.value : this.initValue;
   }
 
-  undo(skipText?: string) {
+  undo(skipText?: string): LoggerState | undefined {
+    // 如果最上面的和现在的不一样，说明现在的值还没有记录，先记录下来，以便重做
+    if (typeof skipText !== 'undefined' && skipText !== this.getCurrent()) {
+      this.push(skipText);
+    }
     const current = this.record.pop();
     if (typeof current === 'undefined') {
-      return this.initValue;
-    }
-    // 如果最上面的和现在的不一样，那就不需要再pop一次
-    if (current !== skipText) {
-      this.recycle.push(current);
-      return current;
-    }
-    // 否则的话，最顶上的一个是当前状态，所以要pop两次才能得到之前的结果
-    const last = this.record.pop();
-    if (typeof last === 'undefined') {
       // 已经没有更老的记录了，把初始值给出去吧
-      this.recycle.push(current);
-      return this.initValue;
+      return { value: this.initValue };
     }
-    // last 才是真正的上一步
     this.recycle.push(current);
-    return last;
+    this.value = revertPatch(this.value, current);
+    // 选中被修改前的内容
+    return {
+      value: this.value,
+      selection: {
+        start: current.start,
+        end: current.start + current.removed.length,
+      },
+    };
   }
 
-  redo() {
+  redo(): LoggerState | undefined {
     const history = this.recycle.pop();
     if (typeof history !== 'undefined') {
-      this.push(history);
-      return history;
+      this.value = applyPatch(this.getCurrent(), history);
+      this.record.push(history);
+      // 光标放在修改后的内容末尾
+      const end = history.start + history.inserted.length;
+      return {
+        value: this.value,
+        selection: { start: end, end },
+      };
     }
     return undefined;
   }
 
   cleanRedo() {
+    this.recycle.forEach(it => (this.size -= getPatchSize(it)));
     this.recycle = [];
   }
 
   getUndoCount() {
-    return this.undo.length;
+    return this.record.length;
   }
 
   getRedoCount() {
@@ -0,0 +1,95 @@
+// OutlinePanel
+import * as React from 'react';
+import i18n from '../../i18n';
+import { Heading } from '../../utils/outline';
+import './outline.less';
+
+interface OutlinePanelProps {
+  headings: Heading[];
+  // 折叠的标题
+  collapsed: string[];
+  onSelect?: (heading: Heading) => void;
+  onToggle?: (heading: Heading) => void;
+  onInsertToc?: () => void;
+}
+
+export function getHeadingKey(heading: Heading) {
+  return `${heading.level}-${heading.slug}`;
+}
+
+class OutlinePanel extends React.Component<OutlinePanelProps, any> {
+  private handleSelect(heading: Heading) {
+    const { onSelect } = this.props;
+    if (typeof onSelect === 'function') {
+      onSelect(heading);
+    }
+  }
+
+  private handleToggle(heading: Heading, e: React.MouseEvent) {
+    e.stopPropagation();
+    const { onToggle } = this.props;
+    if (typeof onToggle === 'function') {
+      onToggle(heading);
+    }
+  }
+
+  private renderItems() {
+    const { headings, collapsed } = this.props;
+    const minLevel = Math.min(...headings.map(it => it.level));
+    const result: React.ReactElement[] = [];
+    // 折叠的标题的级别，其下级标题不显示
+    let hiddenLevel = Infinity;
+    headings.forEach((it, i) => {
+      if (it.level <= hiddenLevel) {
+        hiddenLevel = Infinity;
+      }
+      if (hiddenLevel !== Infinity) {
+        return;
+      }
+      const next = headings[i + 1];
+      const hasChildren = !!next && next.level > it.level;
+      const isCollapsed = hasChildren && collapsed.includes(getHeadingKey(it));
+      if (isCollapsed) {
+        hiddenLevel = it.level;
+      }
+      result.push(
+        <li
+          key={`${i}-${it.slug}`}
+          className={`outline-item outline-level-${it.level}`}
+          style={{ paddingLeft: `${(it.level - minLevel) * 12 + 4}px` }}
+          title={it.text}
+          onClick={this.handleSelect.bind(this, it)}
+        >
+          <span
+            className={`outline-toggle ${hasChildren ? '' : 'empty'} ${isCollapsed ? 'collapsed' : ''}`}
+            onClick={hasChildren ? this.handleToggle.bind(this, it) : undefined}
+          />
+          {it.text}
+        </li>,
+      );
+    });
+    return result;
+  }
+
+  render() {
+    const { headings, onInsertToc } = this.props;
+    return (
+      <div className="outline-panel">
+        <div className="outline-header">
+          <span className="outline-title">{i18n.get('btnOutline')}</span>
+          {headings.length > 0 && (
+            <span className="outline-insert-toc" onClick={onInsertToc}>
+              {i18n.get('outlineInsertToc')}
+            </span>
+          )}
+        </div>
+        {headings.length > 0 ? (
+          <ul className="outline-list">{this.renderItems()}</ul>
+        ) : (
+          <div className="outline-empty">{i18n.get('outlineEmpty')}</div>
+        )}
+      </div>
+    );
+  }
+}
+export default OutlinePanel;
@@ -0,0 +1,158 @@
+import * as React from 'react';
+import Icon from '../../components/Icon';
+import i18n from '../../i18n';
+import { PluginComponent } from '../../plugins/Plugin';
+import { getHeadings, getToc, Heading } from '../../utils/outline';
+import { getLineTops, HEADINGS, LINE_ATTRIBUTES } from '../../utils/scroll';
+import { getLineStart } from '../../utils/source';
+import OutlinePanel, { getHeadingKey } from './OutlinePanel';
+
+interface State {
+  show: boolean;
+  headings: Heading[];
+  // 折叠的标题
+  collapsed: string[];
+}
+
+export default class Outline extends PluginComponent<State> {
+  static pluginName = 'outline';
+
+  constructor(props: any) {
+    super(props);
+
+    this.handleClick = this.handleClick.bind(this);
+    this.handleChange = this.handleChange.bind(this);
+    this.handleSelect = this.handleSelect.bind(this);
+    this.handleToggle = this.handleToggle.bind(this);
+    this.handleInsertToc = this.handleInsertToc.bind(this);
+
+    this.state = {
+      show: false,
+      headings: [],
+      collapsed: [],
+    };
+  }
+
+  private handleClick() {
+    if (this.state.show) {
+      this.setState({
+        show: false,
+      });
+    } else {
+      this.setState({
+        show: true,
+        headings: getHeadings(this.editor.getMdValue()),
+      });
+    }
+  }
+
+  // 内容改变时更新大纲
+  private handleChange(value: string) {
+    if (this.state.show) {
+      this.setState({
+        headings: getHeadings(value),
+      });
+    }
+  }
+
+  private handleToggle(heading: Heading) {
+    const key = getHeadingKey(heading);
+    const { collapsed } = this.state;
+    this.setState({
+      collapsed: collapsed.includes(key) ? collapsed.filter(it => it !== key) : [...collapsed, key],
+    });
+  }
+
+  /**
+   * 获取预览区域中对应的标题，优先使用行号属性，没有时按顺序对应
+   */
+  private getPreviewHeading(preview: HTMLElement, heading: Heading) {
+    const selector = LINE_ATTRIBUTES.map(it => `[${it}="${heading.line}"]`).join(', ');
+    const withLine = preview.querySelector(selector);
+    if (withLine) {
+      return withLine;
+    }
+    const index = this.state.headings.indexOf(heading);
+    return index >= 0 ? preview.querySelectorAll(HEADINGS)[index] : undefined;
+  }
+
+  // 将编辑区域和预览区域都滚动到标题处
+  private handleSelect(heading: Heading) {
+    const text = this.editor.getMdValue();
+    const start = getLineStart(text, heading.line);
+    this.editor.setSelection({ start, end: start });
+    const textarea = this.editor.getMdElement();
+    if (textarea) {
+      const lines = text.split('\n', heading.line + 1).join('\n');
+      textarea.scrollTop = getLineTops(textarea, lines)[heading.line] || 0;
+    }
+    const preview = this.editor.getHtmlElement();
+    const el = preview ? this.getPreviewHeading(preview, heading) : undefined;
+    if (preview && el) {
+      preview.scrollTop += el.getBoundingClientRect().top - preview.getBoundingClientRect().top;
+    }
+  }
+
+  // 在光标处插入目录
+  private handleInsertToc() {
+    const { headings } = this.state;
+    if (headings.length === 0) {
+      return;
+    }
+    const text = this.editor.getMdValue();
+    const selection = this.editor.getSelection();
+    const before = text.slice(0, selection.start);
+    const after = text.slice(selection.end);
+    // 目录需要单独成段
+    const prefix = before === '' || before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n';
+    const suffix = after.startsWith('\n\n') ? '' : after.startsWith('\n') ? '\n' : '\n\n';
+    const toc = `${prefix}${getToc(headings)}${suffix}`;
+    this.editor.insertText(toc, true, {
+      start: toc.length,
+      end: toc.length,
+    });
+  }
+
+  private renderPanel() {
+    return (
+      <OutlinePanel
+        headings={this.state.headings}
+        collapsed={this.state.collapsed}
+        onSelect={this.handleSelect}
+        onToggle={this.handleToggle}
+        onInsertToc={this.handleInsertToc}
+      />
+    );
+  }
+
+  componentDidMount() {
+    this.editor.on('change', this.handleChange);
+  }
+
+  componentDidUpdate(prevProps: any, prevState: State) {
+    // 只在状态改变时更新，避免编辑器重新渲染时循环更新
+    if (prevState !== this.state) {
+      this.editor.setSidebar(this.state.show ? this.renderPanel() : undefined);
+    }
+  }
+
+  componentWillUnmount() {
+    this.editor.off('change', this.handleChange);
+    // 移除插件时，同时移除大纲
+    if (this.state.show) {
+      this.editor.setSidebar(undefined);
+    }
+  }
+
+  render() {
+    return (
+      <span
+        className={`button button-type-outline ${this.state.show ? 'active' : ''}`}
+        title={i18n.get('btnOutline')}
+        onClick={this.handleClick}
+      >
+        <Icon type="outline" />
+      </span>
+    );
+  }
+}
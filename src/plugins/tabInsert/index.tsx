@@ -1,6 +1,7 @@
 /**
  * Since the Markdown Editor will lose input focus when user tpye a Tab key,
  * this is a built-in plugin to enable user to input Tab character.
+ * In lists, Tab and Shift+Tab will indent or outdent the selected items.
  * see src/demo/index.tsx.
  */
 
@@ -11,6 +12,26 @@ import DropList from '../../components/DropList';
 import i18n from '../../i18n';
 import TabMapList from './TabMapList';
 import Icon from '../../components/Icon';
+import { getListItem, renumberList } from '../../utils/list';
+import { getTableAt } from '../../utils/table';
+
+function isListLine(line: string) {
+  const item = getListItem(line);
+  return !!item && item.bullet !== '';
+}
+
+// 列表中的空行、缩进的内容不会中断列表
+function isInList(line: string) {
+  return line.trim() === '' || /^\s/.test(line) || isListLine(line);
+}
+
+function getLineOffset(lines: string[], index: number) {
+  let offset = 0;
+  for (let i = 0; i < index; i++) {
+    offset += lines[i].length + 1;
+  }
+  return offset;
+}
 
 /**
  * @field tabMapValue:  Number of spaces will be inputted. Especially, note that 1 means a '\t' instead of ' '.
@@ -28,6 +49,7 @@ export default class TabInsert extends PluginComponent<TabInsertState> {
   };
 
   private handleKeyboard: KeyboardEventListener;
+  private handleShiftKeyboard: KeyboardEventListener;
 
   constructor(props: any) {
     super(props);
@@ -45,8 +67,93 @@ export default class TabInsert extends PluginComponent<TabInsertState> {
       keyCode: 9,
       aliasCommand: true,
       withKey: [],
-      callback: () => this.editor.insertMarkdown('tab', { tabMapValue: this.state.tabMapValue }),
+      callback: () => this.handleTab(false),
+    };
+    this.handleShiftKeyboard = {
+      key: 'Tab',
+      keyCode: 9,
+      withKey: ['shiftKey'],
+      callback: () => this.handleTab(true),
+    };
+  }
+
+  private getIndent() {
+    const { tabMapValue } = this.state;
+    return tabMapValue === 1 ? '\t' : ' '.repeat(tabMapValue);
+  }
+
+  private indentLine(line: string, outdent: boolean) {
+    const item = getListItem(line);
+    // 列表项的缩进在引用标记之后
+    const quote = item && item.bullet !== '' ? item.quote : '';
+    const rest = line.slice(quote.length);
+    if (!outdent) {
+      return quote + this.getIndent() + rest;
+    }
+    const { tabMapValue } = this.state;
+    if (rest.charAt(0) === '\t') {
+      return quote + rest.slice(1);
+    }
+    const spaces = (rest.match(/^ */) || [''])[0].length;
+    return quote + rest.slice(Math.min(spaces, tabMapValue === 1 ? 4 : tabMapValue));
+  }
+
+  private handleTab(outdent: boolean) {
+    const text = this.editor.getMdValue();
+    const selection = this.editor.getSelection();
+    // 光标在表格中时交给表格插件处理，与插件的注册顺序无关
+    if (getTableAt(text, selection.start)) {
+      return false;
+    }
+    const allLines = text.split('\n');
+    const first = text.slice(0, selection.start).split('\n').length - 1;
+    // 选区结束于行首时，不包括该行
+    let end = selection.end;
+    if (end > selection.start && text.charAt(end - 1) === '\n') {
+      end--;
+    }
+    const last = text.slice(0, end).split('\n').length - 1;
+    const lines = allLines.slice(first, last + 1);
+    const isList = lines.some(isListLine) && lines.every(isInList);
+
+    if (!isList && !outdent) {
+      this.editor.insertMarkdown('tab', { tabMapValue: this.state.tabMapValue });
+      return true;
+    }
+
+    const newLines = [...allLines];
+    for (let i = first; i <= last; i++) {
+      newLines[i] = this.indentLine(allLines[i], outdent);
+    }
+    // 有序列表需要重新计算序号，范围为选中内容所在的整个列表
+    let blockStart = first;
+    let blockEnd = last;
+    if (isList) {
+      while (blockStart > 0 && isInList(allLines[blockStart - 1])) {
+        blockStart--;
+      }
+      while (blockEnd < allLines.length - 1 && isInList(allLines[blockEnd + 1])) {
+        blockEnd++;
+      }
+      newLines.splice(blockStart, blockEnd - blockStart + 1, ...renumberList(newLines.slice(blockStart, blockEnd + 1)));
+    }
+
+    // 内容只在行首发生变化，所以保持选区到行尾的距离不变
+    const mapPosition = (position: number, index: number) => {
+      const lineEnd = getLineOffset(allLines, index) + allLines[index].length;
+      const newLineStart = getLineOffset(newLines, index);
+      const newLineEnd = newLineStart + newLines[index].length;
+      return Math.max(newLineStart, newLineEnd - (lineEnd - position));
     };
+    const from = getLineOffset(allLines, blockStart);
+    const to = getLineOffset(allLines, blockEnd) + allLines[blockEnd].length;
+    const newFrom = getLineOffset(newLines, blockStart);
+    this.editor.setSelection({ start: from, end: to });
+    this.editor.insertText(newLines.slice(blockStart, blockEnd + 1).join('\n'), true, {
+      start: mapPosition(selection.start, first) - newFrom,
+      end: mapPosition(selection.end, last) - newFrom,
+    });
+    return true;
   }
 
   private show() {
@@ -69,12 +176,12 @@ export default class TabInsert extends PluginComponent<TabInsertState> {
 
   componentDidMount() {
     if (this.editorConfig.shortcuts) {
-      this.editor.onKeyboard(this.handleKeyboard);
+      this.editor.onKeyboard([this.handleKeyboard, this.handleShiftKeyboard]);
     }
   }
 
   componentWillUnmount() {
-    this.editor.offKeyboard(this.handleKeyboard);
+    this.editor.offKeyboard([this.handleKeyboard, this.handleShiftKeyboard]);
   }
 
   render() {
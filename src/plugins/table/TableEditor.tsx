@@ -0,0 +1,106 @@
+// TableEditor
+import * as React from 'react';
+import i18n from '../../i18n';
+import {
+  insertColumn,
+  insertRow,
+  moveColumn,
+  removeColumn,
+  removeRow,
+  setColumnAlign,
+  Table,
+  TableAlign,
+} from '../../utils/table';
+import './table.less';
+
+interface TableEditorProps {
+  table: Table;
+  // 光标所在的单元格，行号0为表头
+  row: number;
+  col: number;
+  onChange?: (table: Table, row: number, col: number) => void;
+}
+
+interface TableAction {
+  key: string;
+  disabled?: boolean;
+  // 返回修改后的表格，及光标所在的单元格
+  action: () => [Table, number, number];
+}
+
+class TableEditor extends React.Component<TableEditorProps, any> {
+  private getActions(): TableAction[][] {
+    const { table, row, col } = this.props;
+    const cols = table.header.length;
+    const setAlign = (align: TableAlign) => (): [Table, number, number] => [
+      setColumnAlign(table, col, align),
+      row,
+      col,
+    ];
+    return [
+      [
+        // 表头之上不能插入行
+        { key: 'tableInsertRowAbove', disabled: row === 0, action: () => [insertRow(table, row - 1), row, col] },
+        { key: 'tableInsertRowBelow', action: () => [insertRow(table, row), row + 1, col] },
+        {
+          key: 'tableRemoveRow',
+          disabled: row === 0,
+          action: () => [removeRow(table, row - 1), Math.min(row, table.rows.length - 1), col],
+        },
+      ],
+      [
+        { key: 'tableInsertColumnLeft', action: () => [insertColumn(table, col), row, col] },
+        { key: 'tableInsertColumnRight', action: () => [insertColumn(table, col + 1), row, col + 1] },
+        {
+          key: 'tableRemoveColumn',
+          disabled: cols <= 1,
+          action: () => [removeColumn(table, col), row, Math.min(col, cols - 2)],
+        },
+        {
+          key: 'tableMoveColumnLeft',
+          disabled: col === 0,
+          action: () => [moveColumn(table, col, col - 1), row, col - 1],
+        },
+        {
+          key: 'tableMoveColumnRight',
+          disabled: col >= cols - 1,
+          action: () => [moveColumn(table, col, col + 1), row, col + 1],
+        },
+      ],
+      [
+        { key: 'tableAlignNone', action: setAlign('') },
+        { key: 'tableAlignLeft', action: setAlign('left') },
+        { key: 'tableAlignCenter', action: setAlign('center') },
+        { key: 'tableAlignRight', action: setAlign('right') },
+      ],
+    ];
+  }
+
+  handleAction(it: TableAction) {
+    const { onChange } = this.props;
+    if (!it.disabled && typeof onChange === 'function') {
+      onChange(...it.action());
+    }
+  }
+
+  render() {
+    return (
+      <ul className="table-editor">
+        {this.getActions().map((group, i) => (
+          <li className="table-editor-group" key={i}>
+            {group.map(it => (
+              <span
+                key={it.key}
+                className={`table-editor-item ${it.key} ${it.disabled ? 'disabled' : ''}`}
+                onClick={this.handleAction.bind(this, it)}
+              >
+                {i18n.get(it.key)}
+              </span>
+            ))}
+          </li>
+        ))}
+      </ul>
+    );
+  }
+}
+export default TableEditor;
@@ -3,10 +3,23 @@ import DropList from '../../components/DropList';
 import Icon from '../../components/Icon';
 import i18n from '../../i18n';
 import { PluginComponent, PluginProps } from '../../plugins/Plugin';
+import { KeyboardEventListener } from '../../share/var';
+import {
+  formatTable,
+  getCellOffset,
+  getTableAt,
+  insertRow,
+  removeRow,
+  Table as TableData,
+  TableRange,
+} from '../../utils/table';
+import TableEditor from './TableEditor';
 import TableList from './table';
 
 interface State {
   show: boolean;
+  // 光标所在的表格
+  current?: TableRange;
 }
 
 interface Props extends PluginProps {
@@ -23,20 +36,46 @@ export default class Table extends PluginComponent<State, Props> {
     maxCol: 6,
   };
 
+  private handleKeyboard: KeyboardEventListener[];
+
   constructor(props: any) {
     super(props);
 
     this.show = this.show.bind(this);
     this.hide = this.hide.bind(this);
+    this.handleTableChange = this.handleTableChange.bind(this);
 
     this.state = {
       show: false,
     };
+    // 光标不在表格中时返回false，交给其他插件（如tab-insert）处理
+    this.handleKeyboard = [
+      {
+        key: 'Tab',
+        keyCode: 9,
+        withKey: [],
+        callback: () => this.handleTab(false),
+      },
+      {
+        key: 'Tab',
+        keyCode: 9,
+        withKey: ['shiftKey'],
+        callback: () => this.handleTab(true),
+      },
+      {
+        key: 'Enter',
+        keyCode: 13,
+        withKey: [],
+        callback: e => this.handleEnter(e),
+      },
+    ];
   }
 
   private show() {
+    // 光标在表格中时，显示表格编辑器
     this.setState({
       show: true,
+      current: getTableAt(this.editor.getMdValue(), this.editor.getSelection().start),
     });
   }
   private hide() {
@@ -45,8 +84,118 @@ export default class Table extends PluginComponent<State, Props> {
     });
   }
 
+  private handleTableChange(table: TableData, row: number, col: number) {
+    const { current } = this.state;
+    if (current) {
+      this.replaceTable(current, table, row, col);
+    }
+  }
+
+  /**
+   * 用格式化后的表格替换原有表格，并将光标移动到指定单元格
+   * @param range 原有表格
+   * @param select 是否选中单元格内容
+   */
+  private replaceTable(range: TableRange, table: TableData, row: number, col: number, select = false) {
+    const offset = getCellOffset(table, row, col);
+    const cell = (row === 0 ? table.header : table.rows[row - 1])[col] || '';
+    this.editor.setSelection({
+      start: range.start,
+      end: range.end,
+    });
+    this.editor.insertText(formatTable(table), true, {
+      start: offset,
+      end: select ? offset + cell.length : offset,
+    });
+  }
+
+  private getCurrentTable() {
+    return getTableAt(this.editor.getMdValue(), this.editor.getSelection().start);
+  }
+
+  // Tab移动到下一个单元格，在最后一个单元格时新增一行；Shift+Tab移动到上一个单元格
+  private handleTab(back: boolean) {
+    const current = this.getCurrentTable();
+    if (!current) {
+      return false;
+    }
+    const { table } = current;
+    const cols = table.header.length;
+    let { row, col } = current;
+    let newTable = table;
+    if (back) {
+      if (col > 0) {
+        col--;
+      } else if (row > 0) {
+        row--;
+        col = cols - 1;
+      }
+    } else if (col < cols - 1) {
+      col++;
+    } else {
+      if (row >= table.rows.length) {
+        newTable = insertRow(table, table.rows.length);
+      }
+      row++;
+      col = 0;
+    }
+    this.replaceTable(current, newTable, row, col, true);
+    return true;
+  }
+
+  // 在行尾按下回车时，在下方新增一行；在空的最后一行时，删除该行并离开表格
+  private handleEnter(e: React.KeyboardEvent<HTMLDivElement>) {
+    // 输入法正在输入时，不做处理
+    if (e.nativeEvent && (e.nativeEvent as KeyboardEvent).isComposing) {
+      return false;
+    }
+    const selection = this.editor.getSelection();
+    if (selection.start !== selection.end) {
+      return false;
+    }
+    const current = this.getCurrentTable();
+    if (!current) {
+      return false;
+    }
+    const text = this.editor.getMdValue();
+    const lineEnd = text.indexOf('\n', selection.start);
+    if (text.slice(selection.start, lineEnd === -1 ? text.length : lineEnd).trim() !== '') {
+      return false;
+    }
+    const { table, row } = current;
+    const isLastRow = row > 0 && row === table.rows.length;
+    if (isLastRow && table.rows[row - 1].every(it => it.trim() === '')) {
+      const formatted = formatTable(removeRow(table, row - 1));
+      // 表格后面没有换行时，新增一行；否则移动到下一行
+      const hasNextLine = text.charAt(current.end) === '\n';
+      const newText = hasNextLine ? formatted : `${formatted}\n`;
+      this.editor.setSelection({
+        start: current.start,
+        end: current.end,
+      });
+      this.editor.insertText(newText, true, {
+        start: formatted.length + 1,
+        end: formatted.length + 1,
+      });
+      return true;
+    }
+    this.replaceTable(current, insertRow(table, row), row + 1, 0);
+    return true;
+  }
+
+  componentDidMount() {
+    if (this.editorConfig.shortcuts) {
+      this.editor.onKeyboard(this.handleKeyboard);
+    }
+  }
+
+  componentWillUnmount() {
+    this.editor.offKeyboard(this.handleKeyboard);
+  }
+
   render() {
     const config = this.editorConfig.table || this.props.config;
+    const { current } = this.state;
     return (
       <span
         className="button button-type-table"
@@ -56,12 +205,16 @@ export default class Table extends PluginComponent<State, Props> {
       >
         <Icon type="grid" />
         <DropList show={this.state.show} onClose={this.hide}>
-          <TableList
-            visiblity={this.state.show}
-            maxRow={config.maxRow}
-            maxCol={config.maxCol}
-            onSetTable={(option: any) => this.editor.insertMarkdown('table', option)}
-          />
+          {current ? (
+            <TableEditor table={current.table} row={current.row} col={current.col} onChange={this.handleTableChange} />
+          ) : (
+            <TableList
+              visiblity={this.state.show}
+              maxRow={config.maxRow}
+              maxCol={config.maxCol}
+              onSetTable={(option: any) => this.editor.insertMarkdown('table', option)}
+            />
+          )}
         </DropList>
       </span>
     );
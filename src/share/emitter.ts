@@ -1,6 +1,6 @@
 import { EventEmitter } from 'eventemitter3';
 
-class Emitter extends EventEmitter {
+export class Emitter extends EventEmitter {
   EVENT_CHANGE = 'a1';
   EVENT_FULL_SCREEN = 'a2';
   EVENT_VIEW_CHANGE = 'a3';
@@ -8,8 +8,15 @@ class Emitter extends EventEmitter {
   EVENT_FOCUS = 'a5';
   EVENT_BLUR = 'a6';
   EVENT_SCROLL = 'a7';
+  EVENT_PREVIEW_CLICK = 'a8';
+  EVENT_UPLOAD_START = 'c1';
+  EVENT_UPLOAD_PROGRESS = 'c2';
+  EVENT_UPLOAD_SUCCESS = 'c3';
+  EVENT_UPLOAD_ERROR = 'c4';
+  EVENT_UPLOAD_CANCEL = 'c5';
   EVENT_LANG_CHANGE = 'b1';
 }
+// Global emitter, only for events shared by all editors, such as locale changes
 const emitter = new Emitter();
 
 export default emitter;
@@ -1,8 +1,58 @@
 import * as React from 'react';
 
-export type UploadFunc = ((file: File) => Promise<string>) | ((file: File, callback: (url: string) => void) => void);
+export interface UploadOptions {
+  // Report upload progress, from 0 to 100
+  onProgress: (percent: number) => void;
+  // Aborted when the upload is canceled, undefined if AbortController is not supported
+  signal?: AbortSignal;
+}
+
+// Callback is deprecated, return a Promise instead
+export type UploadFunc = (
+  file: File,
+  callback: (url: string) => void,
+  options: UploadOptions,
+) => Promise<string> | void;
 
-export type EditorEvent = 'change' | 'fullscreen' | 'viewchange' | 'keydown' | 'focus' | 'blur' | 'scroll';
+export interface UploadEvent {
+  id: string;
+  file: File;
+  // uploadprogress
+  progress?: number;
+  // uploadsuccess, the inserted markdown
+  text?: string;
+  // uploaderror
+  error?: unknown;
+}
+
+export type EditorEvent =
+  | 'change'
+  | 'fullscreen'
+  | 'viewchange'
+  | 'keydown'
+  | 'focus'
+  | 'blur'
+  | 'scroll'
+  | 'previewclick'
+  | 'uploadstart'
+  | 'uploadprogress'
+  | 'uploadsuccess'
+  | 'uploaderror'
+  | 'uploadcancel';
+
+export interface ImageProcessConfig {
+  // Resize images larger than these dimensions, keeping the aspect ratio
+  maxWidth?: number;
+  maxHeight?: number;
+  // Re-encode to this type, such as image/webp or image/jpeg
+  type?: string;
+  // Quality of image/jpeg and image/webp, from 0 to 1
+  quality?: number;
+  // Re-encode to remove EXIF data, even if the image is not resized
+  stripExif?: boolean;
+  // Max file size in bytes after processing, larger images are rejected
+  maxSize?: number;
+}
 
 export interface EditorConfig {
   theme?: string;
@@ -24,15 +74,26 @@ export interface EditorConfig {
   markdownClass?: string;
   imageUrl?: string;
   imageAccept?: string;
+  imageProcess?: ImageProcessConfig;
   linkUrl?: string;
   table?: {
     maxRow: number;
     maxCol: number;
   };
   syncScrollMode?: string[];
+  // Move the caret to the source when clicking the preview
+  previewClickToSource?: boolean;
+  // Highlight markdown syntax in the edit area
+  syntaxHighlight?: boolean;
   allowPasteImage?: boolean;
+  allowPasteHtml?: boolean;
+  htmlToMarkdown?: (html: string) => string | Promise<string>;
   onImageUpload?: UploadFunc;
+  onFileUpload?: UploadFunc;
+  // Max number of uploads running at the same time, 0 means no limit
+  uploadConcurrency?: number;
   onCustomImageUpload?: (event: any) => Promise<{ url: string; text?: string }>;
+  onLinkSuggest?: (query: string) => Promise<LinkSuggestion[]>;
   shortcuts?: boolean;
 }
 
@@ -48,7 +109,8 @@ export const initialSelection: Selection = {
   text: '',
 };
 
-export type KeyboardEventCallback = (e: React.KeyboardEvent<HTMLDivElement>) => void;
+// Return false to skip this listener, and let other listeners or browser handle the event
+export type KeyboardEventCallback = (e: React.KeyboardEvent<HTMLDivElement>) => void | boolean;
 export interface KeyboardEventCondition {
   key?: string;
   keyCode: number;
@@ -58,3 +120,11 @@ export interface KeyboardEventCondition {
 export interface KeyboardEventListener extends KeyboardEventCondition {
   callback: KeyboardEventCallback;
 }
+
+export interface LinkSuggestion {
+  url: string;
+  title?: string;
+}
+
+// Return a string to replace the pasted text, or undefined to keep it
+export type PasteTransform = (text: string, selection: Selection) => string | undefined | void;
@@ -1,11 +1,23 @@
 import { repeat } from './tool';
 
+export interface DecorateContext {
+  // 选中内容之前，同一行内的文字
+  before: string;
+  // 选中内容之后，同一行内的文字
+  after: string;
+}
+
 interface Decorated {
   text: string;
   selection?: {
     start: number;
     end: number;
   };
+  // 选中内容前后，需要一起被替换掉的字数
+  extend?: {
+    before: number;
+    after: number;
+  };
 }
 
 // 最简单的Decorator，即在现有文字的基础上加上前缀、后缀即可
@@ -23,6 +35,220 @@ for (let i = 1; i <= 6; i++) {
   SIMPLE_DECORATOR[`h${i}`] = [`\n${repeat('#', i)} `, '\n'];
 }
 
+// 行内格式的标记，再次应用时会被移除
+const INLINE_MARKER: { [x: string]: string } = {
+  bold: '**',
+  italic: '*',
+  underline: '++',
+  strikethrough: '~~',
+  inlinecode: '`',
+};
+
+// 行级格式的标记，第一个分组为需要保留的部分（如缩进）
+const LINE_MARKER: { [x: string]: RegExp } = {
+  quote: /^(\s*)>\s?/,
+  unordered: /^(\s*)[*+-]\s+(?!\[[ xX]\]\s)/,
+  // 任务列表只移除任务标记，保留列表
+  task: /^(\s*(?:[*+-]|\d+[.)])\s+)\[[ xX]\]\s+/,
+  order: /^(\s*)\d+\.\s+/,
+};
+for (let i = 1; i <= 6; i++) {
+  LINE_MARKER[`h${i}`] = new RegExp(`^(\\s*)${repeat('#', i)}\\s+`);
+}
+
+function countRepeat(str: string, char: string, fromEnd: boolean) {
+  let count = 0;
+  while (count < str.length && str.charAt(fromEnd ? str.length - count - 1 : count) === char) {
+    count++;
+  }
+  return count;
+}
+
+function hasInlineMarker(count: number, marker: string) {
+  // 加粗和斜体都使用“*”，需要根据数量区分：一个或三个是斜体，两个及以上是加粗
+  if (marker === '*') {
+    return count === 1 || count >= 3;
+  }
+  return count >= marker.length;
+}
+
+// 文字中是否有未转义的标记，如“*a* and *b*”去掉两侧后的“a* and *b”
+function containsInlineMarker(str: string, marker: string) {
+  const char = marker.charAt(0);
+  let i = 0;
+  while (i < str.length) {
+    if (str.charAt(i) === '\\') {
+      i += 2;
+      continue;
+    }
+    const count = countRepeat(str.slice(i), char, false);
+    if (count > 0 && hasInlineMarker(count, marker)) {
+      return true;
+    }
+    i += Math.max(count, 1);
+  }
+  return false;
+}
+
+function removeInlineMarker(target: string, marker: string, context: DecorateContext): Decorated | undefined {
+  const char = marker.charAt(0);
+  const length = marker.length;
+  const inner = target.slice(length, target.length - length);
+  // 选中的内容本身带有标记，并且是同一个带有标记的片段
+  if (
+    target.length > length * 2 &&
+    hasInlineMarker(countRepeat(target, char, false), marker) &&
+    hasInlineMarker(countRepeat(target, char, true), marker) &&
+    !containsInlineMarker(inner, marker)
+  ) {
+    const text = inner;
+    return {
+      text,
+      selection: {
+        start: 0,
+        end: text.length,
+      },
+    };
+  }
+  // 标记在选中内容的两侧
+  if (
+    hasInlineMarker(countRepeat(context.before, char, true), marker) &&
+    hasInlineMarker(countRepeat(context.after, char, false), marker)
+  ) {
+    return {
+      text: target,
+      selection: {
+        start: 0,
+        end: target.length,
+      },
+      extend: {
+        before: length,
+        after: length,
+      },
+    };
+  }
+  return undefined;
+}
+
+function removeLineMarker(target: string, pattern: RegExp, context: DecorateContext): Decorated | undefined {
+  const lines = (context.before + target + context.after).split('\n');
+  const isEmpty = (line: string) => line.trim() === '';
+  // 所有非空行都带有标记时，才会移除
+  if (lines.every(isEmpty) || !lines.every(line => isEmpty(line) || pattern.test(line))) {
+    return undefined;
+  }
+  const firstMatch = lines[0].match(pattern);
+  const firstRemoved = firstMatch ? firstMatch[0].length - firstMatch[1].length : 0;
+  const text = lines.map(line => line.replace(pattern, '$1')).join('\n');
+  const start = Math.max(0, context.before.length - firstRemoved);
+  return {
+    text,
+    selection: {
+      start,
+      end: Math.min(text.length, Math.max(start, text.length - context.after.length)),
+    },
+    extend: {
+      before: context.before.length,
+      after: context.after.length,
+    },
+  };
+}
+
+const HEADER_MARKER = /^(\s*)#{1,6}\s+/;
+
+/**
+ * 对选中内容所在的整行进行处理
+ * @param transform 处理每一行，返回新的内容
+ */
+function decorateLines(target: string, context: DecorateContext, transform: (line: string) => string): Decorated {
+  const lines = (context.before + target + context.after).split('\n');
+  const newLines = lines.map(transform);
+  const text = newLines.join('\n');
+  // 保持光标在原来的文字处
+  const start = Math.max(0, context.before.length + newLines[0].length - lines[0].length);
+  return {
+    text,
+    selection: {
+      start,
+      end: Math.max(start, text.length - context.after.length),
+    },
+    extend: {
+      before: context.before.length,
+      after: context.after.length,
+    },
+  };
+}
+
+const LIST_MARKER = /^(\s*(?:[*+-]|\d+[.)])\s+)/;
+
+function decorateBlock(target: string, type: string, context: DecorateContext): Decorated | undefined {
+  // 整个范围都是空行时（如空白的编辑区域），直接插入标记
+  const blank = (context.before + target + context.after).trim() === '';
+  // 标题：替换当前行的标题级别
+  if (/^h[1-6]$/.test(type)) {
+    const marker = `${repeat('#', parseInt(type.charAt(1)))} `;
+    return decorateLines(target, context, line => {
+      if (line.trim() === '') {
+        return blank ? marker : line;
+      }
+      return line.replace(HEADER_MARKER, '$1').replace(/^(\s*)/, `$1${marker}`);
+    });
+  }
+  // 引用：没有引用标记的行加上标记
+  if (type === 'quote') {
+    return decorateLines(target, context, line => {
+      if (LINE_MARKER.quote.test(line)) {
+        return line;
+      }
+      return line === '' ? '>' : `> ${line}`;
+    });
+  }
+  // 任务列表：列表项加上任务标记，其他行变为任务列表项
+  if (type === 'task') {
+    return decorateLines(target, context, line => {
+      if (line.trim() === '') {
+        return blank ? '- [ ] ' : line;
+      }
+      // 已经是任务列表项的行不变
+      if (LINE_MARKER.task.test(line)) {
+        return line;
+      }
+      return LIST_MARKER.test(line) ? line.replace(LIST_MARKER, '$1[ ] ') : line.replace(/^(\s*)/, '$1- [ ] ');
+    });
+  }
+  // 无序列表：任务列表项去掉任务标记，其他行变为列表项
+  if (
+    type === 'unordered' &&
+    (context.before + target + context.after).split('\n').some(line => LINE_MARKER.task.test(line))
+  ) {
+    return decorateLines(target, context, line => {
+      if (line.trim() === '') {
+        return line;
+      }
+      if (LINE_MARKER.task.test(line)) {
+        return line.replace(LINE_MARKER.task, '$1');
+      }
+      return LIST_MARKER.test(line) ? line : line.replace(/^(\s*)/, '$1* ');
+    });
+  }
+  // 代码块：用代码块标记包裹整行
+  if (type === 'code') {
+    const content = context.before + target + context.after;
+    return {
+      text: `\`\`\`\n${content}\n\`\`\``,
+      selection: {
+        start: 4,
+        end: 4 + content.length,
+      },
+      extend: {
+        before: context.before.length,
+        after: context.after.length,
+      },
+    };
+  }
+  return undefined;
+}
+
 function decorateTableText(option: any) {
   const { row = 2, col = 2 } = option;
   const rowHeader = ['|'];
@@ -40,13 +266,15 @@ function decorateTableText(option: any) {
   return `\n${rowHeader.join('')}\n${rowDivision.join('')}${colStr}\n`;
 }
 
-function decorateList(type: 'order' | 'unordered', target: string) {
+function decorateList(type: 'order' | 'unordered' | 'task', target: string) {
   let text = target;
   if (text.indexOf('\n') !== 0) {
     text = '\n' + text;
   }
   if (type === 'unordered') {
     return text.replace(/\n/g, '\n* ') + '\n';
+  } else if (type === 'task') {
+    return text.replace(/\n/g, '\n- [ ] ') + '\n';
   } else {
     let count = 1;
     return (
@@ -61,10 +289,26 @@ function decorateList(type: 'order' | 'unordered', target: string) {
  * 获取装饰后的Markdown文本
  * @param target 原文字
  * @param type 装饰类型
- * @param option 附加参数
+ * @param option 附加参数，如果传入了context，会移除已有的格式，标题、引用、代码块会按整行处理
  * @returns {Decorated}
  */
 function getDecorated(target: string, type: string, option?: any): Decorated {
+  const context: DecorateContext | undefined = option && option.context;
+  if (context) {
+    let removed: Decorated | undefined;
+    if (typeof INLINE_MARKER[type] !== 'undefined') {
+      removed = removeInlineMarker(target, INLINE_MARKER[type], context);
+    } else if (typeof LINE_MARKER[type] !== 'undefined') {
+      removed = removeLineMarker(target, LINE_MARKER[type], context);
+    }
+    if (removed) {
+      return removed;
+    }
+    const block = decorateBlock(target, type, context);
+    if (block) {
+      return block;
+    }
+  }
   if (typeof SIMPLE_DECORATOR[type] !== 'undefined') {
     return {
       text: `${SIMPLE_DECORATOR[type][0]}${target}${SIMPLE_DECORATOR[type][1]}`,
@@ -94,6 +338,10 @@ function getDecorated(target: string, type: string, option?: any): Decorated {
       return {
         text: decorateList('order', target),
       };
+    case 'task':
+      return {
+        text: decorateList('task', target),
+      };
     case 'hr':
       return {
         text: '\n---\n',
@@ -0,0 +1,100 @@
+export interface FindOptions {
+  // 区分大小写
+  caseSensitive?: boolean;
+  // 全字匹配
+  wholeWord?: boolean;
+  // 使用正则表达式
+  regex?: boolean;
+}
+
+export interface FindMatch {
+  start: number;
+  end: number;
+  // 匹配的文字及正则表达式的分组
+  groups: string[];
+}
+
+const WORD = /\w/;
+
+function escapeRegExp(str: string) {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 生成查找使用的正则表达式，正则表达式无效时返回undefined
+ * @param query 查找的文字
+ * @param options 查找选项
+ */
+export function getFindRegExp(query: string, options: FindOptions = {}) {
+  const source = options.regex ? query : escapeRegExp(query);
+  // 正则表达式模式下，^和$匹配每一行的开始和结束
+  const flags = `g${options.caseSensitive ? '' : 'i'}${options.regex ? 'm' : ''}`;
+  try {
+    return new RegExp(source, flags);
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function isWholeWord(text: string, start: number, end: number) {
+  return !WORD.test(text.charAt(start - 1)) && !WORD.test(text.charAt(end));
+}
+
+/**
+ * 查找全文中所有匹配的位置，忽略空的匹配
+ * @param text 全文
+ * @param query 查找的文字
+ * @param options 查找选项
+ */
+export function findMatches(text: string, query: string, options: FindOptions = {}): FindMatch[] {
+  const regExp = query === '' ? undefined : getFindRegExp(query, options);
+  if (!regExp) {
+    return [];
+  }
+  const result: FindMatch[] = [];
+  let matched = regExp.exec(text);
+  while (matched !== null) {
+    const start = matched.index;
+    const end = start + matched[0].length;
+    if (end > start && (!options.wholeWord || isWholeWord(text, start, end))) {
+      result.push({
+        start,
+        end,
+        groups: Array.prototype.map.call(matched, (it?: string) => it || '') as string[],
+      });
+    } else {
+      // 从下一个字符继续查找
+      regExp.lastIndex = start + 1;
+    }
+    matched = regExp.exec(text);
+  }
+  return result;
+}
+
+/**
+ * 获取替换后的文字，正则表达式模式下支持$&、$1等引用
+ * @param match 匹配
+ * @param replacement 替换的文字
+ * @param options 查找选项
+ */
+export function getReplacement(match: FindMatch, replacement: string, options: FindOptions = {}) {
+  if (!options.regex) {
+    return replacement;
+  }
+  const { groups } = match;
+  return replacement.replace(/\$(\$|&|[1-9]\d?)/g, (all: string, name: string) => {
+    if (name === '$') {
+      return '$';
+    }
+    if (name === '&') {
+      return groups[0];
+    }
+    const index = parseInt(name, 10);
+    if (index < groups.length) {
+      return groups[index];
+    }
+    // 两位数的分组不存在时，按一位数处理，如$12为$1后接2
+    const first = parseInt(name.charAt(0), 10);
+    return name.length > 1 && first < groups.length ? groups[first] + name.charAt(1) : all;
+  });
+}
@@ -0,0 +1,129 @@
+import { getListItem, getListPrefix } from './list';
+import { ATX_HEADING, FENCE, getHeadingLines, SETEXT_UNDERLINE } from './scroll';
+
+export type HighlightType =
+  | 'heading'
+  | 'hr'
+  | 'quote'
+  | 'list'
+  | 'code-block'
+  | 'code'
+  | 'strong'
+  | 'emphasis'
+  | 'strikethrough'
+  | 'link'
+  | 'image'
+  | 'url';
+
+export interface HighlightToken {
+  text: string;
+  // 没有类型的是普通文字
+  type?: HighlightType;
+}
+
+const HR = /^ {0,3}([-*_])( *\1){2,} *$/;
+// 行内标记，按顺序匹配
+const INLINE = new RegExp(
+  [
+    '(`+)[^`]+?\\1',
+    '!\\[[^\\]]*\\]\\([^)]*\\)',
+    '\\[[^\\]]*\\]\\([^)]*\\)',
+    '<https?://[^>\\s]+>',
+    'https?://[^\\s<>()]+',
+    '(\\*\\*|__)(?=\\S).+?\\2',
+    '~~(?=\\S).+?~~',
+    '([*_])(?=\\S).+?\\3',
+  ].join('|'),
+  'g',
+);
+
+function getInlineType(str: string): HighlightType {
+  if (str.startsWith('`')) {
+    return 'code';
+  }
+  if (str.startsWith('![')) {
+    return 'image';
+  }
+  if (str.startsWith('[')) {
+    return 'link';
+  }
+  if (str.startsWith('<') || str.startsWith('http')) {
+    return 'url';
+  }
+  if (str.startsWith('**') || str.startsWith('__')) {
+    return 'strong';
+  }
+  return str.startsWith('~~') ? 'strikethrough' : 'emphasis';
+}
+
+function getInlineTokens(str: string) {
+  const result: HighlightToken[] = [];
+  let last = 0;
+  INLINE.lastIndex = 0;
+  let matched = INLINE.exec(str);
+  while (matched !== null) {
+    if (matched.index > last) {
+      result.push({ text: str.slice(last, matched.index) });
+    }
+    result.push({ text: matched[0], type: getInlineType(matched[0]) });
+    last = matched.index + matched[0].length;
+    matched = INLINE.exec(str);
+  }
+  if (last < str.length) {
+    result.push({ text: str.slice(last) });
+  }
+  return result;
+}
+
+function getLineTokens(line: string): HighlightToken[] {
+  if (HR.test(line)) {
+    return [{ text: line, type: 'hr' }];
+  }
+  const item = getListItem(line);
+  if (!item) {
+    return getInlineTokens(line);
+  }
+  const result: HighlightToken[] = [];
+  if (item.quote) {
+    result.push({ text: item.quote, type: 'quote' });
+  }
+  const marker = getListPrefix(item).slice(item.quote.length);
+  if (marker) {
+    result.push({ text: marker, type: 'list' });
+  }
+  return result.concat(getInlineTokens(item.content));
+}
+
+/**
+ * 将Markdown分为带有类型的片段，用于语法高亮
+ * 所有片段的文字按行以换行符连接后与原文相同
+ * @param text 全文
+ * @returns {HighlightToken[][]} 每一行的片段
+ */
+export function getHighlightTokens(text: string): HighlightToken[][] {
+  const lines = text.split('\n');
+  const headings = getHeadingLines(text);
+  let fence = '';
+  return lines.map((line, i) => {
+    if (line === '') {
+      return [];
+    }
+    const matched = line.match(FENCE);
+    if (fence) {
+      if (matched && matched[1].charAt(0) === fence.charAt(0) && matched[1].length >= fence.length) {
+        fence = '';
+      }
+      return [{ text: line, type: 'code-block' }];
+    }
+    if (matched) {
+      fence = matched[1];
+      return [{ text: line, type: 'code-block' }];
+    }
+    // Setext标题的下划线也作为标题
+    const isUnderline = headings.includes(i - 1) && !ATX_HEADING.test(lines[i - 1]) && SETEXT_UNDERLINE.test(line);
+    if (headings.includes(i) || isUnderline) {
+      return [{ text: line, type: 'heading' }];
+    }
+    return getLineTokens(line);
+  });
+}
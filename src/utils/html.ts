@@ -0,0 +1,292 @@
+import { formatTable, TableAlign } from './table';
+
+const BLOCK_TAGS = [
+  'ADDRESS',
+  'ARTICLE',
+  'ASIDE',
+  'BLOCKQUOTE',
+  'BODY',
+  'DD',
+  'DIV',
+  'DL',
+  'DT',
+  'FIGURE',
+  'FOOTER',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'H5',
+  'H6',
+  'HEADER',
+  'HR',
+  'LI',
+  'MAIN',
+  'NAV',
+  'OL',
+  'P',
+  'PRE',
+  'SECTION',
+  'TABLE',
+  'TBODY',
+  'TD',
+  'TFOOT',
+  'TH',
+  'THEAD',
+  'TR',
+  'UL',
+];
+const IGNORE_TAGS = ['HEAD', 'LINK', 'META', 'NOSCRIPT', 'SCRIPT', 'STYLE', 'TEMPLATE', 'TITLE'];
+
+function isBlock(node: Node | null) {
+  return !!node && node.nodeType === 1 && BLOCK_TAGS.includes((node as Element).tagName);
+}
+
+function block(content: string) {
+  return `\n\n${content}\n\n`;
+}
+
+// 标记放在空白字符之内，否则无法被识别
+function wrap(content: string, before: string, after: string = before) {
+  const matched = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (matched[2] === '') {
+    return content;
+  }
+  return `${matched[1]}${before}${matched[2]}${after}${matched[3]}`;
+}
+
+function trimInline(content: string) {
+  return content.trim().replace(/\n +/g, '\n');
+}
+
+// 去掉行尾的单个空格，两个空格为换行
+function trimLineEnd(content: string) {
+  return content.replace(/(\S) (\n|$)/g, '$1$2');
+}
+
+function getStyle(el: Element, name: string) {
+  const style = (el as HTMLElement).style;
+  return style ? style.getPropertyValue(name).toLowerCase() : '';
+}
+
+// Google Docs等使用样式表示粗体、斜体
+function isBoldStyle(el: Element) {
+  const weight = getStyle(el, 'font-weight');
+  return weight === 'bold' || weight === 'bolder' || parseInt(weight, 10) >= 600;
+}
+
+function getCodeFence(content: string) {
+  const backticks = content.match(/`+/g) || [];
+  const max = Math.max(0, ...backticks.map(it => it.length));
+  return '`'.repeat(Math.max(3, max + 1));
+}
+
+function convertChildren(node: Node): string {
+  let result = '';
+  node.childNodes.forEach(child => {
+    result += convertNode(child);
+  });
+  return result;
+}
+
+function convertText(node: Node) {
+  const text = node.nodeValue || '';
+  // 块级元素之间的空白没有意义
+  if (text.trim() === '') {
+    const prev = node.previousSibling;
+    const next = node.nextSibling;
+    if (isBlock(prev) || isBlock(next) || (isBlock(node.parentNode) && (!prev || !next))) {
+      return '';
+    }
+  }
+  return text.replace(/\s+/g, ' ').replace(/([\\`*_])/g, '\\$1');
+}
+
+function convertList(el: Element) {
+  const ordered = el.tagName === 'OL';
+  let order = parseInt(el.getAttribute('start') || '1', 10) || 1;
+  const items: string[] = [];
+  el.childNodes.forEach(child => {
+    if (child.nodeType !== 1) {
+      return;
+    }
+    const item = child as Element;
+    if (item.tagName !== 'LI') {
+      items.push(convertNode(item).trim());
+      return;
+    }
+    const bullet = ordered ? `${order++}. ` : '* ';
+    let content = trimLineEnd(convertChildren(item))
+      .replace(/^\s+|\s+$/g, '')
+      .replace(/\n{3,}/g, '\n\n')
+      .replace(/^(\[[ x]\]) +/, '$1 ');
+    // 列表项中没有段落时，为紧凑列表
+    if (!item.querySelector('p')) {
+      content = content.replace(/\n{2,}/g, '\n');
+    }
+    const indent = ' '.repeat(bullet.length);
+    items.push(bullet + content.replace(/\n(?!\n)/g, `\n${indent}`));
+  });
+  return block(items.join('\n'));
+}
+
+function convertTable(el: Element) {
+  const rows: string[][] = [];
+  const align: TableAlign[] = [];
+  Array.prototype.forEach.call(el.querySelectorAll('tr'), (tr: Element) => {
+    // 不处理嵌套的表格
+    if (tr.closest('table') !== el) {
+      return;
+    }
+    const cells: string[] = [];
+    Array.prototype.forEach.call(tr.children, (cell: Element) => {
+      if (cell.tagName !== 'TD' && cell.tagName !== 'TH') {
+        return;
+      }
+      if (rows.length === 0) {
+        const cellAlign = (cell.getAttribute('align') || getStyle(cell, 'text-align')).toLowerCase();
+        align.push(['left', 'center', 'right'].includes(cellAlign) ? (cellAlign as TableAlign) : '');
+      }
+      cells.push(
+        convertChildren(cell)
+          .replace(/\s*\n+\s*/g, ' ')
+          .trim()
+          .replace(/\|/g, '\\|'),
+      );
+    });
+    rows.push(cells);
+  });
+  if (rows.length === 0) {
+    return '';
+  }
+  return block(
+    formatTable({
+      header: rows[0],
+      align,
+      rows: rows.slice(1),
+    }),
+  );
+}
+
+function convertElement(el: Element): string {
+  const tag = el.tagName;
+  if (IGNORE_TAGS.includes(tag)) {
+    return '';
+  }
+  switch (tag) {
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6':
+      return block(`${'#'.repeat(parseInt(tag.charAt(1), 10))} ${trimInline(convertChildren(el)).replace(/\n/g, ' ')}`);
+    case 'P':
+      return block(trimInline(convertChildren(el)));
+    case 'BR':
+      return '  \n';
+    case 'HR':
+      return block('---');
+    case 'BLOCKQUOTE': {
+      const content = convertChildren(el)
+        .trim()
+        .replace(/\n{3,}/g, '\n\n');
+      return block(
+        content
+          .split('\n')
+          .map(line => (line === '' ? '>' : `> ${line}`))
+          .join('\n'),
+      );
+    }
+    case 'UL':
+    case 'OL':
+      return convertList(el);
+    case 'PRE': {
+      const code = el.querySelector('code');
+      const className = `${(code && code.getAttribute('class')) || ''} ${el.getAttribute('class') || ''}`;
+      const language = (className.match(/(?:lang|language)-(\S+)/) || ['', ''])[1];
+      const content = (el.textContent || '').replace(/\n$/, '');
+      const fence = getCodeFence(content);
+      return block(`${fence}${language}\n${content}\n${fence}`);
+    }
+    case 'CODE': {
+      const content = el.textContent || '';
+      const backticks = content.match(/`+/g) || [];
+      const fence = '`'.repeat(Math.max(0, ...backticks.map(it => it.length)) + 1);
+      const space = fence.length > 1 ? ' ' : '';
+      return content === '' ? '' : `${fence}${space}${content}${space}${fence}`;
+    }
+    case 'TABLE':
+      return convertTable(el);
+    case 'A': {
+      const content = convertChildren(el);
+      const href = el.getAttribute('href');
+      if (!href || content.trim() === '') {
+        return content;
+      }
+      const title = el.getAttribute('title');
+      return wrap(content, '[', `](${href}${title ? ` "${title.replace(/"/g, '\\"')}"` : ''})`);
+    }
+    case 'IMG': {
+      const src = el.getAttribute('src');
+      return src ? `![${el.getAttribute('alt') || ''}](${src})` : '';
+    }
+    case 'INPUT':
+      if (el.getAttribute('type') === 'checkbox') {
+        return (el as HTMLInputElement).checked || el.hasAttribute('checked') ? '[x] ' : '[ ] ';
+      }
+      return '';
+    case 'STRONG':
+      return wrap(convertChildren(el), '**');
+    case 'B':
+      // Google Docs会用font-weight为normal的b包裹所有内容
+      return getStyle(el, 'font-weight') === 'normal' ? convertChildren(el) : wrap(convertChildren(el), '**');
+    case 'EM':
+    case 'I':
+      return wrap(convertChildren(el), '*');
+    case 'U':
+    case 'INS':
+      return wrap(convertChildren(el), '++');
+    case 'DEL':
+    case 'S':
+    case 'STRIKE':
+      return wrap(convertChildren(el), '~~');
+  }
+  let result = convertChildren(el);
+  if (tag === 'SPAN') {
+    if (getStyle(el, 'text-decoration').includes('line-through')) {
+      result = wrap(result, '~~');
+    }
+    if (getStyle(el, 'font-style') === 'italic') {
+      result = wrap(result, '*');
+    }
+    if (isBoldStyle(el)) {
+      result = wrap(result, '**');
+    }
+  }
+  return isBlock(el) ? block(result) : result;
+}
+
+function convertNode(node: Node): string {
+  if (node.nodeType === 3) {
+    return convertText(node);
+  }
+  if (node.nodeType === 1) {
+    return convertElement(node as Element);
+  }
+  return '';
+}
+
+/**
+ * 将HTML转换为Markdown，支持标题、列表、链接、表格、代码、强调等
+ * @param html HTML代码
+ */
+export function htmlToMarkdown(html: string) {
+  // 使用独立的文档解析，不会加载图片、执行脚本
+  const doc = document.implementation.createHTMLDocument('');
+  doc.body.innerHTML = html;
+  return trimLineEnd(convertChildren(doc.body))
+    .replace(/[ \t]+\n\n/g, '\n\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/^\n+|\s+$/g, '');
+}
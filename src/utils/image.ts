@@ -0,0 +1,187 @@
+import i18n from '../i18n';
+import { ImageProcessConfig } from '../share/var';
+
+// 可以通过canvas处理的图片类型，GIF（可能有动画）和SVG不处理
+const PROCESSABLE_TYPES = ['image/bmp', 'image/jpeg', 'image/png', 'image/webp'];
+
+const EXTENSIONS: { [x: string]: string } = {
+  'image/bmp': 'bmp',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export function formatSize(size: number) {
+  if (size < 1024) {
+    return `${size}B`;
+  }
+  if (size < 1024 * 1024) {
+    return `${Math.round((size / 1024) * 10) / 10}KB`;
+  }
+  return `${Math.round((size / 1024 / 1024) * 10) / 10}MB`;
+}
+
+/**
+ * 将文件名的扩展名改为与图片类型一致，如转换为JPEG的“a.png”变为“a.jpg”
+ */
+export function replaceExtension(name: string, type: string) {
+  // 浏览器不支持该格式时，会使用PNG
+  const ext = EXTENSIONS[type] || 'png';
+  return name.replace(/(\.[^.]*)?$/, `.${ext}`);
+}
+
+/**
+ * 计算缩放后的尺寸，保持宽高比
+ */
+export function getScaledSize(width: number, height: number, config: ImageProcessConfig) {
+  const { maxWidth, maxHeight } = config;
+  const scale = Math.min(1, maxWidth ? maxWidth / width : 1, maxHeight ? maxHeight / height : 1);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+function loadImage(file: File) {
+  return new Promise((resolve: (image: HTMLImageElement) => void, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Failed to load image ${file.name}`));
+    };
+    image.src = url;
+  });
+}
+
+function checkSize(file: File, config: ImageProcessConfig) {
+  if (config.maxSize && file.size > config.maxSize) {
+    throw new Error(
+      i18n.get('imageTooLarge', {
+        name: file.name,
+        size: formatSize(file.size),
+        maxSize: formatSize(config.maxSize),
+      }),
+    );
+  }
+  return file;
+}
+
+/**
+ * 上传前处理图片：缩放、转换格式、去掉EXIF信息，并检查文件大小
+ * 重新编码的图片不会包含EXIF信息
+ * @param file 图片
+ * @param config 处理配置
+ * @returns {Promise<File>} 处理后的图片，文件过大时为rejected
+ */
+export function processImage(file: File, config: ImageProcessConfig): Promise<File> {
+  if (!PROCESSABLE_TYPES.includes(file.type)) {
+    return Promise.resolve(file).then(it => checkSize(it, config));
+  }
+  const type = config.type && PROCESSABLE_TYPES.includes(config.type) ? config.type : file.type;
+  const needEncode = type !== file.type || !!config.stripExif || typeof config.quality !== 'undefined';
+  if (!needEncode && !config.maxWidth && !config.maxHeight) {
+    return Promise.resolve(file).then(it => checkSize(it, config));
+  }
+  return loadImage(file)
+    .then(image => {
+      const size = getScaledSize(image.naturalWidth, image.naturalHeight, config);
+      if (!needEncode && size.width === image.naturalWidth && size.height === image.naturalHeight) {
+        return file;
+      }
+      const canvas = document.createElement('canvas');
+      canvas.width = size.width;
+      canvas.height = size.height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        return file;
+      }
+      // JPEG没有透明通道，使用白色背景
+      if (type === 'image/jpeg') {
+        context.fillStyle = '#fff';
+        context.fillRect(0, 0, size.width, size.height);
+      }
+      context.drawImage(image, 0, 0, size.width, size.height);
+      return new Promise((resolve: (result: File) => void) => {
+        canvas.toBlob(
+          blob => {
+            if (!blob) {
+              resolve(file);
+              return;
+            }
+            const name = replaceExtension(file.name, blob.type);
+            resolve(new File([blob], name, { type: blob.type, lastModified: file.lastModified }));
+          },
+          type,
+          config.quality,
+        );
+      });
+    })
+    .then(it => checkSize(it, config));
+}
+
+export interface MarkdownImage {
+  alt: string;
+  url: string;
+  title: string;
+}
+
+export interface ImageRange {
+  // 图片语法在原文中的位置
+  start: number;
+  end: number;
+  image: MarkdownImage;
+}
+
+const IMAGE_SYNTAX = /!\[((?:\\.|[^\\\]\n])*)\]\(\s*(<[^>\n]*>|[^\s)]*)(?:\s+("(?:\\.|[^\\"\n])*"|'(?:\\.|[^\\'\n])*'))?\s*\)/g;
+
+function unescape(str: string) {
+  return str.replace(/\\([\\\[\]"'])/g, '$1');
+}
+
+/**
+ * 获取光标所在的图片
+ * @param text 全文
+ * @param position 光标位置
+ */
+export function getImageAt(text: string, position: number): ImageRange | undefined {
+  const lineStart = text.lastIndexOf('\n', position - 1) + 1;
+  const lineEnd = text.indexOf('\n', position);
+  const line = text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd);
+  const regex = new RegExp(IMAGE_SYNTAX.source, 'g');
+  let matched = regex.exec(line);
+  while (matched) {
+    const start = lineStart + matched.index;
+    const end = start + matched[0].length;
+    if (position >= start && position <= end) {
+      const url = matched[2];
+      const title = matched[3] || '';
+      return {
+        start,
+        end,
+        image: {
+          alt: unescape(matched[1]),
+          url: url.charAt(0) === '<' ? url.slice(1, -1) : url,
+          title: unescape(title.slice(1, -1)),
+        },
+      };
+    }
+    matched = regex.exec(line);
+  }
+  return undefined;
+}
+
+/**
+ * 生成图片语法，转义alt、title中的特殊字符
+ */
+export function formatImage(image: MarkdownImage) {
+  const alt = image.alt.replace(/([\\\[\]])/g, '\\$1');
+  // 包含空格、括号的地址使用尖括号包裹
+  const url = /[\s()]/.test(image.url) ? `<${image.url}>` : image.url;
+  const title = image.title ? ` "${image.title.replace(/(["\\])/g, '\\$1')}"` : '';
+  return `![${alt}](${url}${title})`;
+}
@@ -0,0 +1,88 @@
+import { isUrl } from './tool';
+
+export interface MarkdownLink {
+  text: string;
+  url: string;
+  title: string;
+}
+
+export interface LinkRange {
+  // 链接语法在原文中的位置
+  start: number;
+  end: number;
+  link: MarkdownLink;
+}
+
+const LINK_SYNTAX = /\[((?:\\.|[^\\\]\n])*)\]\(\s*(<[^>\n]*>|[^\s)]*)(?:\s+("(?:\\.|[^\\"\n])*"|'(?:\\.|[^\\'\n])*'))?\s*\)/g;
+// 允许的协议，其他协议（如javascript:）视为无效
+const ALLOWED_PROTOCOLS = ['http', 'https', 'ftp', 'mailto', 'tel'];
+
+function unescape(str: string) {
+  return str.replace(/\\([\\"'])/g, '$1');
+}
+
+/**
+ * 获取光标所在的链接，不包括图片
+ * @param text 全文
+ * @param position 光标位置
+ */
+export function getLinkAt(text: string, position: number): LinkRange | undefined {
+  const lineStart = text.lastIndexOf('\n', position - 1) + 1;
+  const lineEnd = text.indexOf('\n', position);
+  const line = text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd);
+  const regex = new RegExp(LINK_SYNTAX.source, 'g');
+  let matched = regex.exec(line);
+  while (matched) {
+    const start = lineStart + matched.index;
+    const end = start + matched[0].length;
+    const isImage = matched.index > 0 && line.charAt(matched.index - 1) === '!';
+    if (!isImage && position >= start && position <= end) {
+      const url = matched[2];
+      const title = matched[3] || '';
+      return {
+        start,
+        end,
+        link: {
+          // 链接文字可以包含其他语法，保持原样
+          text: matched[1],
+          url: url.charAt(0) === '<' ? url.slice(1, -1) : url,
+          title: unescape(title.slice(1, -1)),
+        },
+      };
+    }
+    matched = regex.exec(line);
+  }
+  return undefined;
+}
+
+/**
+ * 生成链接语法
+ */
+export function formatLink(link: MarkdownLink) {
+  // 包含空格、括号的地址使用尖括号包裹
+  const url = /[\s()]/.test(link.url) ? `<${link.url}>` : link.url;
+  const title = link.title ? ` "${link.title.replace(/(["\\])/g, '\\$1')}"` : '';
+  return `[${link.text}](${url}${title})`;
+}
+
+/**
+ * 检查链接地址是否有效，支持http(s)等协议，以及相对地址、锚点
+ */
+export function isValidLink(url: string) {
+  const str = url.trim();
+  if (str === '') {
+    return false;
+  }
+  const protocol = str.match(/^([a-z][a-z0-9+.-]*):/i);
+  if (!protocol) {
+    return !/[<>]/.test(str);
+  }
+  const name = protocol[1].toLowerCase();
+  if (!ALLOWED_PROTOCOLS.includes(name)) {
+    return false;
+  }
+  if (name === 'http' || name === 'https') {
+    return isUrl(str);
+  }
+  return /^[^\s]+$/.test(str) && str.length > name.length + 1;
+}
@@ -0,0 +1,118 @@
+const QUOTE_PREFIX = /^(\s*>\s?)*/;
+const LIST_ITEM = /^(\s*)([*+-]|(\d+)([.)]))(\s+)(\[[ xX]\]\s+)?/;
+
+export interface ListItem {
+  // 引用标记，如“> ”
+  quote: string;
+  // 缩进
+  indent: string;
+  // 列表标记，如“*”、“1.”，不是列表时为空
+  bullet: string;
+  // 有序列表的序号
+  order?: number;
+  // 列表标记和内容之间的空白
+  space: string;
+  // 任务列表的标记，如“[ ] ”
+  task: string;
+  // 标记后的内容
+  content: string;
+}
+
+/**
+ * 解析列表项或引用
+ * @param line 一行文字
+ * @returns {ListItem | undefined} 不是列表或引用时返回undefined
+ */
+export function getListItem(line: string): ListItem | undefined {
+  const quote = (line.match(QUOTE_PREFIX) || [''])[0];
+  const rest = line.slice(quote.length);
+  const matched = rest.match(LIST_ITEM);
+  if (!matched) {
+    if (quote === '') {
+      return undefined;
+    }
+    return {
+      quote,
+      indent: '',
+      bullet: '',
+      space: '',
+      task: '',
+      content: rest,
+    };
+  }
+  return {
+    quote,
+    indent: matched[1],
+    bullet: matched[2],
+    order: typeof matched[3] === 'undefined' ? undefined : parseInt(matched[3], 10),
+    space: matched[5],
+    task: matched[6] || '',
+    content: rest.slice(matched[0].length),
+  };
+}
+
+/**
+ * 获取列表项的前缀（内容之前的部分）
+ */
+export function getListPrefix(item: ListItem) {
+  return item.quote + item.indent + item.bullet + item.space + item.task;
+}
+
+/**
+ * 获取下一个列表项的前缀，有序列表序号加一，任务列表为未完成
+ */
+export function getNextListPrefix(item: ListItem) {
+  let bullet = item.bullet;
+  if (typeof item.order !== 'undefined') {
+    bullet = `${item.order + 1}${bullet.charAt(bullet.length - 1)}`;
+  }
+  const task = item.task ? '[ ] ' : '';
+  return item.quote + item.indent + bullet + item.space + task;
+}
+
+/**
+ * 重新计算有序列表的序号
+ * 每一级列表的第一项保留原有序号（嵌套列表从1开始），之后的依次加一
+ * @param lines 列表所在的行
+ */
+export function renumberList(lines: string[]) {
+  // 每一级列表的缩进与当前序号
+  let levels: { indent: number; order?: number }[] = [];
+  return lines.map(line => {
+    const item = getListItem(line);
+    if (!item || item.bullet === '') {
+      // 没有缩进的其他内容会结束列表
+      if (line.trim() !== '' && !/^\s/.test(line)) {
+        levels = [];
+      }
+      return line;
+    }
+    const indent = item.quote.length + item.indent.length;
+    while (levels.length > 0 && levels[levels.length - 1].indent > indent) {
+      levels.pop();
+    }
+    let level = levels[levels.length - 1];
+    if (!level || level.indent < indent) {
+      level = { indent };
+      levels.push(level);
+    }
+    if (typeof item.order === 'undefined') {
+      level.order = undefined;
+      return line;
+    }
+    if (typeof level.order !== 'undefined') {
+      level.order++;
+    } else {
+      level.order = levels.length > 1 ? 1 : item.order;
+    }
+    if (level.order === item.order) {
+      return line;
+    }
+    return (
+      getListPrefix({
+        ...item,
+        bullet: `${level.order}${item.bullet.charAt(item.bullet.length - 1)}`,
+      }) + item.content
+    );
+  });
+}
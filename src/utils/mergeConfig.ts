@@ -5,11 +5,14 @@ function mergeObject(obj1: any, obj2: any) {
       result[k] = obj1[k];
       return;
     }
-    if (typeof obj2[k] === 'object') {
+    if (typeof obj2[k] === 'object' && obj2[k] !== null) {
       if (Array.isArray(obj2[k])) {
         result[k] = [...obj2[k]];
-      } else {
+      } else if (typeof obj1[k] === 'object' && obj1[k] !== null) {
         result[k] = mergeObject(obj1[k], obj2[k]);
+      } else {
+        // 默认值不是对象（如imageProcess默认为undefined）时，直接使用
+        result[k] = { ...obj2[k] };
       }
       return;
     }
@@ -0,0 +1,72 @@
+import { getHeadingLines } from './scroll';
+
+export interface Heading {
+  // 标题所在的行，从0开始
+  line: number;
+  level: number;
+  text: string;
+  // 锚点，与GitHub生成的一致
+  slug: string;
+}
+
+const SETEXT_H1 = /^ {0,3}=+\s*$/;
+const SLUG_PUNCTUATION = /[!"#$%&'()*+,./:;<=>?@[\\\]^`{|}~]/g;
+
+// 去掉标题中的行内标记，得到显示的文字
+function getHeadingText(line: string) {
+  return line
+    .replace(/^ {0,3}#{1,6}(\s+|$)/, '')
+    .replace(/\s+#+\s*$/, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|\*|_|~~|`)(.+?)\1/g, '$2')
+    .trim();
+}
+
+/**
+ * 生成标题的锚点，重复的锚点添加序号
+ * @param text 标题文字
+ * @param used 已经使用的锚点及次数
+ */
+export function getSlug(text: string, used: { [x: string]: number } = {}) {
+  const slug = text
+    .toLowerCase()
+    .replace(SLUG_PUNCTUATION, '')
+    .trim()
+    .replace(/\s/g, '-');
+  const count = used[slug] || 0;
+  used[slug] = count + 1;
+  return count > 0 ? `${slug}-${count}` : slug;
+}
+
+/**
+ * 获取Markdown中的所有标题
+ * @param text 全文
+ */
+export function getHeadings(text: string): Heading[] {
+  const lines = text.split('\n');
+  const used: { [x: string]: number } = {};
+  return getHeadingLines(text).map(line => {
+    const content = lines[line];
+    const atx = content.match(/^ {0,3}(#{1,6})(\s|$)/);
+    // Setext标题使用下一行的标记表示级别
+    const level = atx ? atx[1].length : SETEXT_H1.test(lines[line + 1]) ? 1 : 2;
+    const headingText = getHeadingText(content);
+    return {
+      line,
+      level,
+      text: headingText,
+      slug: getSlug(headingText, used),
+    };
+  });
+}
+
+/**
+ * 生成目录，为指向各个标题的嵌套列表
+ * @param headings 标题
+ */
+export function getToc(headings: Heading[]) {
+  const minLevel = Math.min(...headings.map(it => it.level));
+  return headings
+    .map(it => `${'  '.repeat(it.level - minLevel)}* [${it.text.replace(/([[\]])/g, '\\$1')}](#${it.slug})`)
+    .join('\n');
+}
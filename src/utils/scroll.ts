@@ -0,0 +1,174 @@
+export interface ScrollAnchor {
+  // 编辑区域与预览区域中对应的滚动位置
+  md: number;
+  html: number;
+}
+
+// 影响文字换行的样式，用于计算每一行在输入框中的位置
+const MIRROR_STYLES = [
+  'boxSizing',
+  'fontFamily',
+  'fontSize',
+  'fontStyle',
+  'fontVariant',
+  'fontWeight',
+  'letterSpacing',
+  'lineHeight',
+  'paddingTop',
+  'paddingRight',
+  'paddingBottom',
+  'paddingLeft',
+  'tabSize',
+  'textIndent',
+  'textTransform',
+  'wordBreak',
+  'wordSpacing',
+];
+export const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+export const ATX_HEADING = /^ {0,3}#{1,6}(\s|$)/;
+export const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)\s*$/;
+export const HEADINGS = 'h1, h2, h3, h4, h5, h6';
+// 常见的Markdown解析器插件输出的行号属性，行号从0开始
+export const LINE_ATTRIBUTES = ['data-line', 'data-source-line'];
+
+/**
+ * 获取Markdown中标题所在的行，不包括代码块中的内容
+ * @param text 全文
+ */
+export function getHeadingLines(text: string) {
+  const lines = text.split('\n');
+  const result: number[] = [];
+  let fence = '';
+  lines.forEach((line, i) => {
+    const matched = line.match(FENCE);
+    if (fence) {
+      if (matched && matched[1].charAt(0) === fence.charAt(0) && matched[1].length >= fence.length) {
+        fence = '';
+      }
+      return;
+    }
+    if (matched) {
+      fence = matched[1];
+      return;
+    }
+    if (ATX_HEADING.test(line)) {
+      result.push(i);
+    } else if (i > 0 && SETEXT_UNDERLINE.test(line) && lines[i - 1].trim() !== '' && !result.includes(i - 1)) {
+      // Setext标题的标题文字在上一行
+      result.push(i - 1);
+    }
+  });
+  return result;
+}
+
+/**
+ * 将输入框影响排版的样式（字体、内边距等）复制到另一个元素上
+ */
+export function copyTextStyles(textarea: HTMLTextAreaElement, el: HTMLElement) {
+  const style: any = window.getComputedStyle(textarea);
+  MIRROR_STYLES.forEach(it => {
+    (el.style as any)[it] = style[it];
+  });
+}
+
+/**
+ * 获取每一行在输入框中的位置，包括自动换行的影响
+ */
+export function getLineTops(textarea: HTMLTextAreaElement, text: string) {
+  const mirror = document.createElement('div');
+  copyTextStyles(textarea, mirror);
+  mirror.style.position = 'absolute';
+  mirror.style.top = '0';
+  mirror.style.left = '-9999px';
+  mirror.style.visibility = 'hidden';
+  mirror.style.boxSizing = 'border-box';
+  mirror.style.width = `${textarea.clientWidth}px`;
+  mirror.style.whiteSpace = 'pre-wrap';
+  mirror.style.overflowWrap = 'break-word';
+  text.split('\n').forEach(line => {
+    const it = document.createElement('div');
+    // 空行也需要占据高度
+    it.textContent = line === '' ? ' ' : line;
+    mirror.appendChild(it);
+  });
+  document.body.appendChild(mirror);
+  const result = Array.prototype.map.call(mirror.children, (it: HTMLElement) => it.offsetTop) as number[];
+  document.body.removeChild(mirror);
+  return result;
+}
+
+/**
+ * 获取预览区域中与源码行对应的元素位置
+ * 优先使用元素的行号属性，没有时按顺序对应标题
+ */
+function getPreviewAnchors(wrapper: HTMLElement, text: string) {
+  const wrapperTop = wrapper.getBoundingClientRect().top - wrapper.scrollTop;
+  const getTop = (el: Element) => el.getBoundingClientRect().top - wrapperTop;
+  const result: { line: number; top: number }[] = [];
+  const withLine = wrapper.querySelectorAll(LINE_ATTRIBUTES.map(it => `[${it}]`).join(', '));
+  if (withLine.length > 0) {
+    Array.prototype.forEach.call(withLine, (el: Element) => {
+      const attr = LINE_ATTRIBUTES.find(it => el.hasAttribute(it))!;
+      const line = parseInt(el.getAttribute(attr) || '', 10);
+      if (!isNaN(line)) {
+        result.push({ line, top: getTop(el) });
+      }
+    });
+    return result;
+  }
+  const lines = getHeadingLines(text);
+  const headings = wrapper.querySelectorAll(HEADINGS);
+  for (let i = 0; i < Math.min(lines.length, headings.length); i++) {
+    result.push({ line: lines[i], top: getTop(headings[i]) });
+  }
+  return result;
+}
+
+/**
+ * 计算编辑区域和预览区域之间的滚动锚点，两端总是对齐
+ * @param textarea 编辑区域
+ * @param wrapper 预览区域
+ * @param text 全文
+ */
+export function getScrollAnchors(textarea: HTMLTextAreaElement, wrapper: HTMLElement, text: string) {
+  const mdMax = Math.max(0, textarea.scrollHeight - textarea.clientHeight);
+  const htmlMax = Math.max(0, wrapper.scrollHeight - wrapper.clientHeight);
+  const anchors = getPreviewAnchors(wrapper, text);
+  const result: ScrollAnchor[] = [{ md: 0, html: 0 }];
+  if (anchors.length > 0) {
+    const lineTops = getLineTops(textarea, text);
+    anchors
+      .filter(it => it.line >= 0 && it.line < lineTops.length)
+      .sort((a, b) => a.line - b.line || a.top - b.top)
+      .forEach(it => {
+        const last = result[result.length - 1];
+        const anchor = { md: lineTops[it.line], html: it.top };
+        // 只保留两侧都递增的锚点
+        if (anchor.md > last.md && anchor.html > last.html && anchor.md < mdMax && anchor.html < htmlMax) {
+          result.push(anchor);
+        }
+      });
+  }
+  result.push({ md: mdMax, html: htmlMax });
+  return result;
+}
+
+/**
+ * 根据锚点计算另一侧的滚动位置，锚点之间线性插值
+ * @param anchors 滚动锚点
+ * @param value 滚动的一侧的位置
+ * @param from 滚动的一侧
+ */
+export function mapScrollTop(anchors: ScrollAnchor[], value: number, from: keyof ScrollAnchor) {
+  const to: keyof ScrollAnchor = from === 'md' ? 'html' : 'md';
+  for (let i = 1; i < anchors.length; i++) {
+    const prev = anchors[i - 1];
+    const next = anchors[i];
+    if (value <= next[from] || i === anchors.length - 1) {
+      const range = next[from] - prev[from];
+      const ratio = range > 0 ? Math.min(1, Math.max(0, (value - prev[from]) / range)) : 0;
+      return prev[to] + (next[to] - prev[to]) * ratio;
+    }
+  }
+  return 0;
+}
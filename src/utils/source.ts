@@ -0,0 +1,168 @@
+import { getListItem } from './list';
+import { ATX_HEADING, FENCE, LINE_ATTRIBUTES } from './scroll';
+import { getTableAt } from './table';
+
+// 可以对应到源码的块级元素
+const BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, pre, blockquote, tr, dt, dd';
+// 用于查找源码的文字长度
+const SNIPPET_LENGTH = 30;
+
+function normalize(str: string) {
+  return str
+    .replace(/[*_~`|\\]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// 去掉一行中的Markdown标记，得到显示的文字
+function stripMarkdown(line: string) {
+  return normalize(
+    line
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/<[^>]+>/g, '')
+      .replace(/^\s*(>\s*)*/, '')
+      .replace(/^\s*([*+-]|\d+[.)])\s+(\[[ xX]\]\s+)?/, '')
+      .replace(/^\s*#{1,6}(\s+|$)/, '')
+      .replace(/\s+#+\s*$/, ''),
+  );
+}
+
+function getSnippet(el: Element) {
+  // 表格行使用第一个单元格的文字
+  const it = el.tagName === 'TR' && el.firstElementChild ? el.firstElementChild : el;
+  return normalize(it.textContent || '').slice(0, SNIPPET_LENGTH);
+}
+
+function getLineAttribute(el: Element) {
+  const attr = LINE_ATTRIBUTES.find(it => el.hasAttribute(it));
+  const line = attr ? parseInt(el.getAttribute(attr) || '', 10) : NaN;
+  return isNaN(line) ? undefined : line;
+}
+
+/**
+ * 根据文字查找元素对应的源码行，相同文字的元素按出现顺序对应
+ */
+function findSourceLine(el: Element, container: Element, text: string) {
+  const snippet = getSnippet(el);
+  if (snippet === '') {
+    return undefined;
+  }
+  const same: Element[] = Array.prototype.filter.call(
+    container.querySelectorAll(BLOCK_SELECTOR),
+    (it: Element) => getSnippet(it) === snippet,
+  );
+  // 嵌套的元素（如li中的p）只计算一次
+  const leaves = same.filter(it => !same.some(other => other !== it && it.contains(other)));
+  const index = leaves.findIndex(it => it === el || el.contains(it));
+  let count = 0;
+  const lines = text.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const it = stripMarkdown(lines[i]);
+    if (it !== '' && (it.startsWith(snippet) || snippet.startsWith(it))) {
+      if (count === Math.max(index, 0)) {
+        return i;
+      }
+      count++;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 获取预览区域中的元素对应的源码行，行号从0开始
+ * 优先使用元素或其上级元素的行号属性（如data-line），没有时根据文字查找
+ * @param target 预览区域中的元素
+ * @param container 预览区域
+ * @param text 全文
+ */
+export function getSourceLine(target: Element, container: Element, text: string): number | undefined {
+  let el: Element | null = target;
+  while (el && el !== container) {
+    const line = getLineAttribute(el);
+    if (typeof line !== 'undefined') {
+      return line;
+    }
+    el = el.parentElement;
+  }
+  const block = target.closest(BLOCK_SELECTOR);
+  if (!block || !container.contains(block) || block === container) {
+    return undefined;
+  }
+  return findSourceLine(block, container, text);
+}
+
+/**
+ * 获取一行在全文中的起始位置
+ */
+export function getLineStart(text: string, line: number) {
+  const lines = text.split('\n');
+  let result = 0;
+  for (let i = 0; i < Math.min(line, lines.length); i++) {
+    result += lines[i].length + 1;
+  }
+  return result;
+}
+
+/**
+ * 获取一行所在的块（段落、标题、列表项、代码块、表格）的位置
+ * @param text 全文
+ * @param line 行号，从0开始
+ */
+export function getBlockRange(text: string, line: number) {
+  const lines = text.split('\n');
+  const current = Math.min(Math.max(line, 0), lines.length - 1);
+  const toRange = (from: number, to: number) => ({
+    start: getLineStart(text, from),
+    end: getLineStart(text, to) + lines[to].length,
+  });
+  // 代码块
+  let fence = '';
+  let fenceStart = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const matched = lines[i].match(FENCE);
+    if (fence) {
+      if (matched && matched[1].charAt(0) === fence.charAt(0) && matched[1].length >= fence.length) {
+        if (current >= fenceStart && current <= i) {
+          return toRange(fenceStart, i);
+        }
+        fence = '';
+      }
+    } else if (matched) {
+      fence = matched[1];
+      fenceStart = i;
+    }
+    if (i >= current && !fence) {
+      break;
+    }
+  }
+  // 没有结束的代码块，到全文结束
+  if (fence && current >= fenceStart) {
+    return toRange(fenceStart, lines.length - 1);
+  }
+  if (ATX_HEADING.test(lines[current])) {
+    return toRange(current, current);
+  }
+  const table = getTableAt(text, getLineStart(text, current));
+  if (table) {
+    return { start: table.start, end: table.end };
+  }
+  const isBlank = (i: number) => lines[i].trim() === '';
+  const isBoundary = (i: number) => ATX_HEADING.test(lines[i]) || FENCE.test(lines[i]);
+  const isListItem = (i: number) => {
+    const item = getListItem(lines[i]);
+    return !!item && item.bullet !== '';
+  };
+  if (isBlank(current)) {
+    return toRange(current, current);
+  }
+  // 向上找到段落或列表项的开始，向下到下一个列表项或空行之前
+  let first = current;
+  while (first > 0 && !isListItem(first) && !isBlank(first - 1) && !isBoundary(first - 1)) {
+    first--;
+  }
+  let last = current;
+  while (last < lines.length - 1 && !isBlank(last + 1) && !isBoundary(last + 1) && !isListItem(last + 1)) {
+    last++;
+  }
+  return toRange(first, last);
+}
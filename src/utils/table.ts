@@ -0,0 +1,272 @@
+export type TableAlign = '' | 'left' | 'center' | 'right';
+
+export interface Table {
+  header: string[];
+  align: TableAlign[];
+  rows: string[][];
+}
+
+export interface TableRange {
+  // 表格在原文中的位置
+  start: number;
+  end: number;
+  table: Table;
+  // 光标所在的单元格，行号0为表头，分割线也视为表头
+  row: number;
+  col: number;
+}
+
+const DELIMITER_ROW = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+// 全角字符按两个字符宽度计算
+const WIDE_CHAR = /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/g;
+
+function getWidth(str: string) {
+  const wide = str.match(WIDE_CHAR);
+  return str.length + (wide ? wide.length : 0);
+}
+
+function isTableLine(line: string) {
+  return line.trim() !== '' && line.includes('|');
+}
+
+function isDelimiterRow(line: string) {
+  return line.includes('-') && DELIMITER_ROW.test(line);
+}
+
+/**
+ * 获取一行中未转义的“|”的位置
+ */
+function getPipes(line: string) {
+  const result: number[] = [];
+  for (let i = 0; i < line.length; i++) {
+    if (line.charAt(i) === '\\') {
+      i++;
+    } else if (line.charAt(i) === '|') {
+      result.push(i);
+    }
+  }
+  return result;
+}
+
+function splitRow(line: string) {
+  const pipes = getPipes(line);
+  const cells: string[] = [];
+  let last = 0;
+  pipes.forEach(pipe => {
+    cells.push(line.slice(last, pipe));
+    last = pipe + 1;
+  });
+  cells.push(line.slice(last));
+  // 去掉首尾“|”之外的部分
+  if (cells.length > 1 && cells[0].trim() === '') {
+    cells.shift();
+  }
+  if (cells.length > 1 && cells[cells.length - 1].trim() === '') {
+    cells.pop();
+  }
+  return cells.map(it => it.trim());
+}
+
+function parseAlign(cell: string): TableAlign {
+  const left = cell.charAt(0) === ':';
+  const right = cell.charAt(cell.length - 1) === ':';
+  if (left && right) {
+    return 'center';
+  }
+  if (left) {
+    return 'left';
+  }
+  return right ? 'right' : '';
+}
+
+/**
+ * 获取光标所在的表格
+ * @param text 全文
+ * @param position 光标位置
+ */
+export function getTableAt(text: string, position: number): TableRange | undefined {
+  const lines = text.split('\n');
+  const current = text.slice(0, position).split('\n').length - 1;
+  if (!isTableLine(lines[current])) {
+    return undefined;
+  }
+  let first = current;
+  while (first > 0 && isTableLine(lines[first - 1])) {
+    first--;
+  }
+  let last = current;
+  while (last < lines.length - 1 && isTableLine(lines[last + 1])) {
+    last++;
+  }
+  // 分割线的上一行是表头
+  let header = -1;
+  for (let i = first + 1; i <= last; i++) {
+    if (isDelimiterRow(lines[i])) {
+      header = i - 1;
+      break;
+    }
+  }
+  if (header < 0 || current < header) {
+    return undefined;
+  }
+  const rows = lines.slice(header, last + 1).map(splitRow);
+  const table = {
+    header: rows[0],
+    align: rows[1].map(parseAlign),
+    rows: rows.slice(2),
+  };
+  let start = 0;
+  for (let i = 0; i < header; i++) {
+    start += lines[i].length + 1;
+  }
+  let end = start;
+  for (let i = header; i <= last; i++) {
+    end += lines[i].length + (i === last ? 0 : 1);
+  }
+  // 计算光标所在的单元格
+  let lineStart = 0;
+  for (let i = 0; i < current; i++) {
+    lineStart += lines[i].length + 1;
+  }
+  const line = lines[current];
+  const pipes = getPipes(line).filter(it => it < position - lineStart);
+  const hasLeadingPipe = line.trim().charAt(0) === '|';
+  const cols = Math.max(table.header.length, 1);
+  return {
+    start,
+    end,
+    table,
+    row: Math.max(0, current - header - 1),
+    col: Math.min(Math.max(0, pipes.length - (hasLeadingPipe ? 1 : 0)), cols - 1),
+  };
+}
+
+function getColumnCount(table: Table) {
+  return Math.max(table.header.length, ...table.rows.map(it => it.length), 1);
+}
+
+function cloneTable(table: Table): Table {
+  return {
+    header: [...table.header],
+    align: [...table.align],
+    rows: table.rows.map(it => [...it]),
+  };
+}
+
+function pad(str: string, width: number, align: TableAlign) {
+  const space = width - getWidth(str);
+  if (align === 'right') {
+    return ' '.repeat(space) + str;
+  }
+  if (align === 'center') {
+    const left = Math.floor(space / 2);
+    return ' '.repeat(left) + str + ' '.repeat(space - left);
+  }
+  return str + ' '.repeat(space);
+}
+
+/**
+ * 格式化表格，对齐每一列
+ */
+export function formatTable(table: Table) {
+  const cols = getColumnCount(table);
+  const rows = [table.header, ...table.rows];
+  const widths: number[] = [];
+  for (let i = 0; i < cols; i++) {
+    widths.push(Math.max(3, ...rows.map(row => getWidth(row[i] || ''))));
+  }
+  const align = widths.map((_, i) => table.align[i] || '');
+  const formatRow = (row: string[]) =>
+    `| ${widths.map((width, i) => pad(row[i] || '', width, align[i])).join(' | ')} |`;
+  const delimiter = widths.map((width, i) => {
+    const it = align[i];
+    const dashes = '-'.repeat(width - (it === 'center' ? 2 : it === '' ? 0 : 1));
+    return `${it === 'left' || it === 'center' ? ':' : ''}${dashes}${it === 'right' || it === 'center' ? ':' : ''}`;
+  });
+  return [formatRow(table.header), `| ${delimiter.join(' | ')} |`, ...table.rows.map(formatRow)].join('\n');
+}
+
+/**
+ * 获取单元格内容在格式化后的表格中的位置
+ * @param table 表格
+ * @param row 行号，0为表头
+ * @param col 列号
+ */
+export function getCellOffset(table: Table, row: number, col: number) {
+  const lines = formatTable(table).split('\n');
+  const lineIndex = Math.min(row === 0 ? 0 : row + 1, lines.length - 1);
+  let offset = 0;
+  for (let i = 0; i < lineIndex; i++) {
+    offset += lines[i].length + 1;
+  }
+  const line = lines[lineIndex];
+  const pipes = getPipes(line);
+  const pipe = pipes[Math.min(col, pipes.length - 2)];
+  const next = pipes[Math.min(col, pipes.length - 2) + 1];
+  // 空单元格的光标位于左侧空格之后
+  if (line.slice(pipe + 1, next).trim() === '') {
+    return offset + pipe + 2;
+  }
+  let position = pipe + 1;
+  while (line.charAt(position) === ' ') {
+    position++;
+  }
+  return offset + position;
+}
+
+export function insertRow(table: Table, index: number) {
+  const result = cloneTable(table);
+  result.rows.splice(index, 0, new Array(getColumnCount(table)).fill(''));
+  return result;
+}
+
+export function removeRow(table: Table, index: number) {
+  const result = cloneTable(table);
+  result.rows.splice(index, 1);
+  return result;
+}
+
+export function insertColumn(table: Table, index: number) {
+  const result = cloneTable(table);
+  [result.header, result.align, ...result.rows].forEach((row: string[]) => {
+    while (row.length < index) {
+      row.push('');
+    }
+    row.splice(index, 0, '');
+  });
+  return result;
+}
+
+export function removeColumn(table: Table, index: number) {
+  const result = cloneTable(table);
+  // 至少保留一列
+  if (getColumnCount(table) <= 1) {
+    return result;
+  }
+  [result.header, result.align, ...result.rows].forEach((row: string[]) => row.splice(index, 1));
+  return result;
+}
+
+export function moveColumn(table: Table, from: number, to: number) {
+  const result = cloneTable(table);
+  const cols = getColumnCount(table);
+  if (to < 0 || to >= cols) {
+    return result;
+  }
+  [result.header, result.align, ...result.rows].forEach((row: string[]) => {
+    while (row.length < cols) {
+      row.push('');
+    }
+    row.splice(to, 0, row.splice(from, 1)[0]);
+  });
+  return result;
+}
+
+export function setColumnAlign(table: Table, col: number, align: TableAlign) {
+  const result = cloneTable(table);
+  while (result.align.length <= col) {
+    result.align.push('');
+  }
+  result.align[col] = align;
+  return result;
+}
@@ -33,6 +33,14 @@ export function isPromise(obj: any): obj is Promise<any> {
   );
 }
 
+export function isUrl(str: string) {
+  return /^https?:\/\/[^\s/?#]+[^\s]*$/i.test(str);
+}
+
+export function isImageUrl(str: string) {
+  return isUrl(str) && /\.(png|jpe?g|gif|webp|svg|bmp|ico|avif)([?#][^\s]*)?$/i.test(str);
+}
+
 export function repeat(str: string, num: number) {
   let result = '';
   let n = num;
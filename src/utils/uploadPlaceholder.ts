@@ -1,31 +1,90 @@
-import { UploadFunc } from '../share/var';
+import { UploadFunc, UploadOptions } from '../share/var';
 import * as uuid from 'uuid/v4';
 import getDecorated from './decorate';
 import { isPromise } from './tool';
 
-function getUploadPlaceholder(file: File, onImageUpload: UploadFunc) {
-  const placeholder = getDecorated('', 'image', {
-    target: 'Uploading_' + uuid(),
-    imageUrl: '',
+// 也可以是函数，根据上传后的地址生成插入的文字
+export type UploadSyntax = 'image' | 'link' | ((url: string) => string);
+
+// 浏览器可以直接显示的图片类型
+const IMAGE_MIME_TYPES = [
+  'image/apng',
+  'image/avif',
+  'image/bmp',
+  'image/gif',
+  'image/jpeg',
+  'image/png',
+  'image/svg+xml',
+  'image/vnd.microsoft.icon',
+  'image/webp',
+  'image/x-icon',
+];
+
+/**
+ * 根据文件类型决定插入的语法：可以显示的图片使用图片语法，其他文件（如PDF、TIFF）使用链接
+ */
+export function getUploadSyntax(file: File): UploadSyntax {
+  return IMAGE_MIME_TYPES.includes(file.type.toLowerCase()) ? 'image' : 'link';
+}
+
+function decorateFile(file: File, url: string, syntax: UploadSyntax) {
+  if (typeof syntax === 'function') {
+    return syntax(url);
+  }
+  if (syntax === 'link') {
+    return getDecorated(file.name, 'link', { linkUrl: url }).text;
+  }
+  return getDecorated('', 'image', {
+    target: file.name,
+    imageUrl: url,
   }).text;
-  const uploaded = new Promise((resolve: (url: string) => void) => {
+}
+
+/**
+ * 获取上传中的占位符
+ * @param ready 不为空时，等待其完成后上传其结果，结果为undefined时不上传
+ * @returns uploaded 上传完成后插入的文字，上传失败时为rejected
+ */
+function getUploadPlaceholder(
+  file: File,
+  onImageUpload: UploadFunc,
+  syntax: UploadSyntax = 'image',
+  options: UploadOptions = { onProgress: () => {} },
+  ready?: Promise<File | undefined>,
+) {
+  const placeholder =
+    syntax === 'link'
+      ? getDecorated('Uploading_' + uuid(), 'link', { linkUrl: '' }).text
+      : getDecorated('', 'image', {
+          target: 'Uploading_' + uuid(),
+          imageUrl: '',
+        }).text;
+  const uploaded = new Promise((resolve: (url: string) => void, reject) => {
     let isCallback = true;
     const handleUploaded = (url: string) => {
       if (isCallback) {
         console.warn('Deprecated: onImageUpload should return a Promise, callback will be removed in future');
       }
-      resolve(
-        getDecorated('', 'image', {
-          target: file.name,
-          imageUrl: url,
-        }).text,
-      );
+      resolve(decorateFile(file, url, syntax));
+    };
+    const start = (it: File) => {
+      // 兼容回调和Promise
+      const upload = onImageUpload(it, handleUploaded, options);
+      if (isPromise(upload)) {
+        isCallback = false;
+        upload.then(handleUploaded, reject);
+      }
     };
-    // 兼容回调和Promise
-    const upload = onImageUpload(file, handleUploaded);
-    if (isPromise(upload)) {
-      isCallback = false;
-      upload.then(handleUploaded);
+    if (ready) {
+      ready
+        .then(it => {
+          if (it) {
+            start(it);
+          }
+        })
+        .catch(reject);
+    } else {
+      start(file);
     }
   });
   return { placeholder, uploaded };
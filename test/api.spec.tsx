@@ -14,7 +14,7 @@ const TextComponent = (props: {
     <div>
       <button id="click_handler" onClick={() => ref.current && onClick(ref.current)}>Click</button>
       <label htmlFor="myeditor_md">My Editor</label>
-      <Editor ref={ref} id="myeditor" renderHTML={text => text} defaultValue={value || "123456"} />
+      <Editor ref={ref} id="myeditor" renderHTML={text => text} defaultValue={typeof value === 'undefined' ? "123456" : value} />
     </div>
   )
 }
@@ -127,6 +127,64 @@ describe('Test API', function() {
     return next(() => expect(selected).to.equals('23'));
   });
 
+  // insertMarkdown
+  it('insertMarkdown bold twice', function() {
+    let selected = '';
+    const handleClick = (editor: Editor) => {
+      editor.insertMarkdown('bold');
+      setTimeout(() => selected = editor.getSelection().text);
+    }
+    const { textarea } = doClick(handleClick, {
+      value: '1**23**456',
+      start: 3,
+      end: 5
+    });
+    expect(textarea.value).to.equals('123456');
+    return next(() => expect(selected).to.equals('23'));
+  });
+
+  // insertMarkdown
+  it('insertMarkdown header', function() {
+    const handleClick = (editor: Editor) => {
+      editor.insertMarkdown('h2');
+    }
+    const { textarea } = doClick(handleClick, {
+      value: '# 123\n456',
+      start: 3,
+      end: 3
+    });
+    expect(textarea.value).to.equals('## 123\n456');
+  });
+
+  // insertMarkdown
+  it('insertMarkdown header in empty editor', function() {
+    let selection = { start: -1, end: -1 };
+    const handleClick = (editor: Editor) => {
+      editor.insertMarkdown('h1');
+      setTimeout(() => selection = editor.getSelection());
+    }
+    const { textarea } = doClick(handleClick, {
+      value: '',
+      start: 0,
+      end: 0
+    });
+    expect(textarea.value).to.equals('# ');
+    return next(() => expect(selection).to.deep.include({ start: 2, end: 2 }));
+  });
+
+  // insertMarkdown
+  it('insertMarkdown header on empty line', function() {
+    const handleClick = (editor: Editor) => {
+      editor.insertMarkdown('h3');
+    }
+    const { textarea } = doClick(handleClick, {
+      value: '123\n\n456',
+      start: 4,
+      end: 4
+    });
+    expect(textarea.value).to.equals('123\n### \n456');
+  });
+
   // insertMarkdown
   it('insertMarkdown unordered', function() {
     let selected = '';
@@ -173,5 +231,50 @@ describe('Test API', function() {
     return next(() => expect(textarea.value).to.equals('1_resolved_456'));
   });
 
+  // transact
+  it('transact', function() {
+    let selected = '';
+    let changes = 0;
+    const handleClick = (editor: Editor) => {
+      editor.on('change', () => changes++);
+      editor.transact(() => {
+        editor.insertText('xx', true);
+        editor.setSelection({ start: 0, end: 1 });
+        editor.insertText('yy', true, {
+          start: 0,
+          end: 2
+        });
+      });
+      setTimeout(() => selected = editor.getSelection().text);
+    }
+    const { textarea } = doClick(handleClick);
+    expect(textarea.value).to.equals('yyxx456');
+    expect(changes).to.equals(1);
+    return next(() => expect(selected).to.equals('yy'));
+  });
+
+  // transact
+  it('transact with error', function() {
+    let changes = 0;
+    let error: any;
+    const handleClick = (editor: Editor) => {
+      editor.on('change', () => changes++);
+      try {
+        editor.transact(() => {
+          editor.insertText('xx', true);
+          throw new Error('failed');
+        });
+      } catch (e) {
+        error = e;
+      }
+      // The editor still works after the failed transaction
+      editor.insertText('yy', true);
+    }
+    const { textarea } = doClick(handleClick);
+    expect(error.message).to.equals('failed');
+    expect(textarea.value).to.equals('1yy456');
+    expect(changes).to.equals(1);
+  });
+
   afterEach(cleanup);
 });
\ No newline at end of file
@@ -1,7 +1,18 @@
 import { cleanup, fireEvent, render, screen } from '@testing-library/react';
 import { expect } from 'chai';
 import * as React from 'react';
-import Editor from '../src';
+import Editor, { PluginComponent } from '../src';
+
+class TestPlugin extends PluginComponent {
+  static pluginName = 'test-plugin';
+  static defaultConfig = {
+    value: 'default',
+  };
+
+  render() {
+    return <span className="test-plugin">{this.getConfig('value')}</span>;
+  }
+}
 
 describe('Test Editor', function() {
   // render
@@ -47,5 +58,261 @@ describe('Test Editor', function() {
     expect(element.innerHTML).to.equals(text);
   });
 
+  // events are isolated between editors
+  it('events of different editors', function() {
+    const refA = React.createRef<Editor>();
+    const refB = React.createRef<Editor>();
+    render(<div>
+      <Editor ref={refA} renderHTML={text => text} defaultValue="A" />
+      <Editor ref={refB} renderHTML={text => text} defaultValue="B" />
+    </div>);
+
+    const received: string[] = [];
+    if (refA.current && refB.current) {
+      refA.current.on('change', (value: string) => received.push(value));
+      refB.current.setText('B changed');
+      refA.current.setText('A changed');
+    }
+    expect(received).to.deep.equal(['A changed']);
+  });
+
+  // plugins of instance
+  it('render with instance plugins', function() {
+    const { container } = render(<div>
+      <div className="editor-a">
+        <Editor renderHTML={text => text} pluginConfigs={[{ comp: TestPlugin, config: { value: 'instance' } }]} />
+      </div>
+      <div className="editor-b">
+        <Editor renderHTML={text => text} />
+      </div>
+    </div>);
+
+    const plugin = container.querySelector('.editor-a .test-plugin');
+    expect(plugin).not.to.be.null;
+    if (plugin !== null) {
+      expect(plugin.textContent).to.equals('instance');
+    }
+    expect(container.querySelector('.editor-b .test-plugin')).to.be.null;
+  });
+
+  // instance plugins replace global plugins
+  it('instance plugins override global plugins', function() {
+    Editor.use(TestPlugin, { value: 'global' });
+    const { container } = render(<Editor
+      renderHTML={text => text}
+      plugins={['test-plugin']}
+      pluginConfigs={[{ comp: TestPlugin, config: { value: 'instance' } }]}
+    />);
+    Editor.unuse(TestPlugin);
+
+    const plugins = container.querySelectorAll('.test-plugin');
+    expect(plugins.length).to.equals(1);
+    expect(plugins[0].textContent).to.equals('instance');
+  });
+
+  it('paste HTML as markdown', function() {
+    const paste = (config: any) => {
+      const { container } = render(<Editor renderHTML={text => text} config={config} />);
+      const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+      const item = (type: string, value: string) => ({ kind: 'string', type, getAsString: (cb: any) => cb(value) });
+      fireEvent.paste(textarea, {
+        clipboardData: { items: [item('text/plain', 'title'), item('text/html', '<h1>title</h1>')] },
+      });
+      return textarea;
+    };
+    const textarea = paste({ allowPasteHtml: true });
+    const custom = paste({ allowPasteHtml: true, htmlToMarkdown: (html: string) => Promise.resolve(`custom ${html}`) });
+    return new Promise(resolve => setTimeout(resolve, 10)).then(() => {
+      expect(textarea.value).to.equal('# title');
+      expect(custom.value).to.equal('custom <h1>title</h1>');
+    });
+  });
+
+  it('transform pasted text', function() {
+    const ref = React.createRef<Editor>();
+    const { container } = render(<Editor ref={ref} renderHTML={text => text} />);
+    const upperCase = (text: string) => text.toUpperCase();
+    ref.current!.onPaste(upperCase);
+    const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+    fireEvent.paste(textarea, { clipboardData: { getData: () => 'text' } });
+    ref.current!.offPaste(upperCase);
+    fireEvent.paste(textarea, { clipboardData: { getData: () => 'text' } });
+    expect(textarea.value).to.equal('TEXT');
+  });
+
+  it('drop files to upload', function() {
+    const onFileUpload = (file: File) => Promise.resolve(`/upload/${file.name}`);
+    const { container } = render(<Editor renderHTML={text => text} onFileUpload={onFileUpload} />);
+    const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+    const item = (file: File) => ({ kind: 'file', type: file.type, getAsFile: () => file });
+    fireEvent.drop(container.querySelector('.rc-md-editor') as HTMLElement, {
+      dataTransfer: {
+        items: [
+          item(new File([''], 'a.pdf', { type: 'application/pdf' })),
+          item(new File([''], 'b.png', { type: 'image/png' })),
+        ],
+      },
+    });
+    return new Promise(resolve => setTimeout(resolve, 10)).then(() => {
+      expect(textarea.value).to.equal('[a.pdf](/upload/a.pdf)\n![b.png](/upload/b.png)');
+    });
+  });
+
+  it('upload lifecycle', function() {
+    const ref = React.createRef<Editor>();
+    let signal: AbortSignal | undefined;
+    const onFileUpload = (file: File, callback: any, options: any) => {
+      if (file.name === 'fail.pdf') {
+        return Promise.reject(new Error('failed'));
+      }
+      signal = options.signal;
+      options.onProgress(50);
+      // 不会完成，直到被取消
+      return new Promise<string>(() => undefined);
+    };
+    render(<Editor ref={ref} renderHTML={text => text} defaultValue="a" onFileUpload={onFileUpload} />);
+    const editor = ref.current!;
+    const events: string[] = [];
+    ['uploadstart', 'uploadprogress', 'uploadsuccess', 'uploaderror', 'uploadcancel'].forEach((name: any) =>
+      editor.on(name, (e: any) => events.push(`${name} ${e.file.name}${e.progress ? ` ${e.progress}` : ''}`)),
+    );
+    editor.uploadFile(new File([''], 'fail.pdf', { type: 'application/pdf' }));
+    const id = editor.uploadFile(new File([''], 'slow.pdf', { type: 'application/pdf' }));
+    expect(editor.getMdValue().match(/\[Uploading_.+?\]\(\)/g)).to.have.length(2);
+    const wait = () => new Promise(resolve => setTimeout(resolve, 10));
+    return wait()
+      .then(() => {
+        editor.cancelUpload(id);
+        return wait();
+      })
+      .then(() => {
+        expect(editor.getMdValue()).to.equal('a');
+        expect(signal && signal.aborted).to.be.true;
+        expect(events).to.have.members([
+          'uploadstart fail.pdf',
+          'uploadstart slow.pdf',
+          'uploadprogress slow.pdf 50',
+          'uploaderror fail.pdf',
+          'uploadcancel slow.pdf',
+        ]);
+      });
+  });
+
+  it('upload files in order with concurrency limit', function() {
+    const ref = React.createRef<Editor>();
+    const pending: { [name: string]: (url: string) => void } = {};
+    const onFileUpload = (file: File) => new Promise<string>(resolve => (pending[file.name] = resolve));
+    const config = { uploadConcurrency: 2 };
+    render(<Editor ref={ref} renderHTML={text => text} config={config} onFileUpload={onFileUpload} />);
+    const editor = ref.current!;
+    const files = ['a.pdf', 'b.pdf', 'c.pdf'].map(name => new File([''], name, { type: 'application/pdf' }));
+    editor.uploadFiles(files);
+    const wait = () => new Promise(resolve => setTimeout(resolve, 10));
+    return wait()
+      .then(() => {
+        expect(Object.keys(pending)).to.deep.equal(['a.pdf', 'b.pdf']);
+        pending['b.pdf']('/b');
+        return wait();
+      })
+      .then(() => {
+        expect(Object.keys(pending)).to.deep.equal(['a.pdf', 'b.pdf', 'c.pdf']);
+        expect(editor.getMdValue()).to.match(/^\[Uploading_.+\]\(\)\n\[b\.pdf\]\(\/b\)\n\[Uploading_.+\]\(\)$/);
+        pending['a.pdf']('/a');
+        pending['c.pdf']('/c');
+        return wait();
+      })
+      .then(() => {
+        expect(editor.getMdValue()).to.equal('[a.pdf](/a)\n[b.pdf](/b)\n[c.pdf](/c)');
+      });
+  });
+
+  it('show the error of image process in place of the placeholder', function() {
+    const ref = React.createRef<Editor>();
+    const onImageUpload = (file: File) => Promise.resolve(`/upload/${file.name}`);
+    const config = { imageProcess: { maxSize: 1024 } };
+    render(<Editor ref={ref} renderHTML={text => text} config={config} onImageUpload={onImageUpload} />);
+    const editor = ref.current!;
+    const errors: string[] = [];
+    editor.on('uploaderror', (e: { error: Error }) => errors.push(e.error.message));
+    editor.uploadFiles([
+      new File(['a'.repeat(2048)], 'large.gif', { type: 'image/gif' }),
+      new File([''], 'small.gif', { type: 'image/gif' }),
+    ]);
+    return new Promise(resolve => setTimeout(resolve, 10)).then(() => {
+      expect(errors).to.deep.equal(['Image large.gif is 2KB, larger than the limit of 1KB']);
+      expect(editor.getMdValue()).to.equal(
+        '![Image large.gif is 2KB, larger than the limit of 1KB]()\n![small.gif](/upload/small.gif)',
+      );
+    });
+  });
+
+  it('jump to source from preview', function() {
+    const text = '# Title\n\nfirst line\nsecond line\n\nend';
+    const { container } = render(
+      <Editor renderHTML={() => '<h1>Title</h1><p>first line\nsecond line</p><p>end</p>'} defaultValue={text} />,
+    );
+    const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+    const paragraphs = container.querySelectorAll('.html-wrap p');
+    fireEvent.click(paragraphs[1]);
+    expect(textarea.selectionStart).to.equal(33);
+    expect(textarea.selectionEnd).to.equal(33);
+    fireEvent.doubleClick(paragraphs[0]);
+    expect(textarea.selectionStart).to.equal(9);
+    expect(textarea.selectionEnd).to.equal(31);
+  });
+
+  it('do not jump to source when a plugin handled the click', function() {
+    const ref = React.createRef<Editor>();
+    const text = '# Title\n\nend';
+    const { container } = render(
+      <Editor ref={ref} renderHTML={() => '<h1>Title</h1><p>end</p>'} defaultValue={text} />,
+    );
+    const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+    textarea.setSelectionRange(2, 2, 'forward');
+    ref.current!.on('previewclick', (e: MouseEvent) => e.preventDefault());
+    fireEvent.click(container.querySelector('.html-wrap p') as HTMLElement);
+    expect(textarea.selectionStart).to.equal(2);
+  });
+
+  it('syntax highlight', function() {
+    const ref = React.createRef<Editor>();
+    const { container } = render(
+      <Editor ref={ref} renderHTML={text => text} defaultValue="# Title" config={{ syntaxHighlight: true, syncScrollMode: [] }} />,
+    );
+    const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+    const highlight = container.querySelector('.input-highlight') as HTMLElement;
+    expect(ref.current!.getMdElement()).to.equal(textarea);
+    expect(highlight.querySelector('.md-heading')!.textContent).to.equal('# Title');
+    // 高亮层跟随内容更新
+    ref.current!.setSelection({ start: 7, end: 7 });
+    ref.current!.insertText('\n\n**bold**');
+    expect(textarea.value).to.equal('# Title\n\n**bold**');
+    expect(highlight.querySelector('.md-strong')!.textContent).to.equal('**bold**');
+    textarea.scrollTop = 20;
+    fireEvent.scroll(textarea);
+    expect(highlight.scrollTop).to.equal(20);
+  });
+
+  it('syntax highlight layer follows the textarea', function() {
+    const ref = React.createRef<Editor>();
+    const { container } = render(
+      <Editor ref={ref} renderHTML={text => text} defaultValue="# Title" config={{ syntaxHighlight: true, syncScrollMode: [] }} />,
+    );
+    const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+    const highlight = container.querySelector('.input-highlight') as HTMLElement;
+    // 使用编辑区域的字体和内边距
+    textarea.style.fontFamily = 'serif';
+    textarea.style.paddingLeft = '30px';
+    ref.current!.insertText('!');
+    expect(highlight.style.fontFamily).to.equal('serif');
+    expect(highlight.style.paddingLeft).to.equal('30px');
+    // 跟随编辑区域滚动
+    textarea.scrollTop = 40;
+    textarea.scrollLeft = 10;
+    fireEvent.scroll(textarea);
+    expect(highlight.scrollTop).to.equal(40);
+    expect(highlight.scrollLeft).to.equal(10);
+  });
+
   afterEach(cleanup);
 });
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { cleanup, fireEvent, render } from '@testing-library/react';
+import { expect } from 'chai';
+import * as React from 'react';
+import Editor, { Plugins } from '../../src';
+
+const renderEditor = (value: string) => {
+  const { container } = render(
+    <Editor renderHTML={text => text} defaultValue={value} pluginConfigs={[{ comp: Plugins.Find, config: {} }]} />,
+  );
+  const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+  const query = (selector: string) => container.querySelector(selector) as HTMLElement;
+  return { container, textarea, query };
+};
+
+const wait = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('Test Find', function() {
+  it('Find with shortcut', function() {
+    const { textarea, query } = renderEditor('foo bar foo');
+    textarea.setSelectionRange(8, 11, 'forward');
+    fireEvent.keyDown(textarea, { key: 'f', keyCode: 70, ctrlKey: true });
+    // 使用选中的文字查找
+    expect((query('.find-query') as HTMLInputElement).value).to.equal('foo');
+    expect(query('.find-count').textContent).to.equal('2 results');
+    expect(query('.find-replacement')).to.be.null;
+    return wait();
+  });
+
+  it('Navigate matches', function() {
+    const { textarea, query } = renderEditor('foo Foo foo');
+    fireEvent.click(query('.button-type-find'));
+    fireEvent.change(query('.find-query'), { target: { value: 'foo' } });
+    fireEvent.click(query('.find-option-caseSensitive'));
+    fireEvent.click(query('.find-next'));
+    expect([textarea.selectionStart, textarea.selectionEnd]).to.deep.equal([0, 3]);
+    fireEvent.click(query('.find-next'));
+    expect([textarea.selectionStart, textarea.selectionEnd]).to.deep.equal([8, 11]);
+    expect(query('.find-count').textContent).to.equal('2 of 2');
+    // 到达结尾时从头开始
+    fireEvent.click(query('.find-next'));
+    expect(textarea.selectionStart).to.equal(0);
+    fireEvent.click(query('.find-prev'));
+    expect(textarea.selectionStart).to.equal(8);
+  });
+
+  it('Show invalid regular expression', function() {
+    const { query } = renderEditor('foo');
+    fireEvent.click(query('.button-type-find'));
+    fireEvent.click(query('.find-option-regex'));
+    fireEvent.change(query('.find-query'), { target: { value: '(' } });
+    expect(query('.find-query').className).to.contain('invalid');
+    expect(query('.find-count').textContent).to.equal('Invalid regular expression');
+  });
+
+  it('Replace one', function() {
+    const { textarea, query } = renderEditor('a-1 a-2');
+    fireEvent.keyDown(textarea, { key: 'h', keyCode: 72, ctrlKey: true });
+    fireEvent.click(query('.find-option-regex'));
+    fireEvent.change(query('.find-query'), { target: { value: 'a-(\\d)' } });
+    fireEvent.change(query('.find-replacement'), { target: { value: 'b$1' } });
+    // 没有选中匹配时，先选中下一个匹配
+    fireEvent.click(query('.find-replace'));
+    expect(textarea.value).to.equal('a-1 a-2');
+    fireEvent.click(query('.find-replace'));
+    expect(textarea.value).to.equal('b1 a-2');
+    return wait().then(() => {
+      expect([textarea.selectionStart, textarea.selectionEnd]).to.deep.equal([3, 6]);
+      expect(query('.find-count').textContent).to.equal('1 of 1');
+    });
+  });
+
+  it('Replace all as one undo step', function() {
+    const { textarea, query } = renderEditor('a b a b a');
+    fireEvent.keyDown(textarea, { key: 'h', keyCode: 72, ctrlKey: true });
+    fireEvent.change(query('.find-query'), { target: { value: 'a' } });
+    fireEvent.change(query('.find-replacement'), { target: { value: 'cc' } });
+    fireEvent.click(query('.find-replace-all'));
+    expect(textarea.value).to.equal('cc b cc b cc');
+    expect(query('.find-count').textContent).to.equal('No results');
+    fireEvent.click(query('.button-type-undo'));
+    expect(textarea.value).to.equal('a b a b a');
+    return wait();
+  });
+
+  afterEach(cleanup);
+});
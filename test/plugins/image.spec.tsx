@@ -0,0 +1,59 @@
+import { cleanup, fireEvent, render } from '@testing-library/react';
+import { expect } from 'chai';
+import * as React from 'react';
+import Editor from '../../src';
+
+const openEditor = (element: React.ReactElement, position: number) => {
+  const { container } = render(element);
+  const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+  textarea.setSelectionRange(position, position, 'forward');
+  fireEvent.click(container.querySelector('.button-type-image') as HTMLElement);
+  return { container, textarea };
+};
+
+const wait = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('Test Image', function() {
+  it('Edit image at caret', function() {
+    const { container, textarea } = openEditor(
+      <Editor renderHTML={text => text} defaultValue="a ![logo](a.png) b" />,
+      4,
+    );
+    expect((container.querySelector('.image-editor-url') as HTMLInputElement).value).to.equal('a.png');
+    fireEvent.change(container.querySelector('.image-editor-alt') as HTMLElement, { target: { value: 'new logo' } });
+    fireEvent.change(container.querySelector('.image-editor-title') as HTMLElement, { target: { value: 'Logo' } });
+    fireEvent.click(container.querySelector('.imageSave') as HTMLElement);
+    expect(textarea.value).to.equal('a ![new logo](a.png "Logo") b');
+  });
+
+  it('Remove image at caret', function() {
+    const { container, textarea } = openEditor(
+      <Editor renderHTML={text => text} defaultValue="a ![logo](a.png) b" />,
+      4,
+    );
+    fireEvent.click(container.querySelector('.imageRemove') as HTMLElement);
+    expect(textarea.value).to.equal('a  b');
+  });
+
+  it('Replace image at caret', function() {
+    const onImageUpload = () => Promise.resolve('b.png');
+    const { container, textarea } = openEditor(
+      <Editor renderHTML={text => text} defaultValue='![logo](a.png "Logo")' onImageUpload={onImageUpload} />,
+      4,
+    );
+    const input = container.querySelector('.image-editor input[type=file]') as HTMLInputElement;
+    const file = new File(['png'], 'b.png', { type: 'image/png' });
+    fireEvent.change(input, { target: { files: [file] } });
+    return wait().then(() => {
+      expect(textarea.value).to.equal('![logo](b.png "Logo")');
+    });
+  });
+
+  it('Insert image outside images', function() {
+    const { container, textarea } = openEditor(<Editor renderHTML={text => text} defaultValue="text" />, 4);
+    expect(container.querySelector('.image-editor')).to.be.null;
+    expect(textarea.value).to.equal('text![]()');
+  });
+
+  afterEach(cleanup);
+});
@@ -0,0 +1,121 @@
+import { cleanup, fireEvent, render } from '@testing-library/react';
+import { expect } from 'chai';
+import * as React from 'react';
+import Editor, { Plugins } from '../../src';
+
+const paste = (element: React.ReactElement, text: string, start: number, end: number = start) => {
+  const { container } = render(element);
+  const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+  textarea.setSelectionRange(start, end, 'forward');
+  fireEvent.paste(textarea, {
+    clipboardData: { getData: () => text },
+  });
+  return textarea;
+};
+
+const openEditor = (element: React.ReactElement, start: number, end: number = start) => {
+  const { container } = render(element);
+  const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+  textarea.setSelectionRange(start, end, 'forward');
+  fireEvent.keyDown(textarea, { key: 'k', keyCode: 75, ctrlKey: true });
+  return { container, textarea };
+};
+
+const wait = (time: number = 10) => new Promise(resolve => setTimeout(resolve, time));
+
+describe('Test Link', function() {
+  it('Paste URL over selected text', function() {
+    const textarea = paste(<Editor renderHTML={text => text} defaultValue="see docs" />, 'https://example.com', 4, 8);
+    expect(textarea.value).to.equal('see [docs](https://example.com)');
+  });
+
+  it('Paste URL without selection', function() {
+    const textarea = paste(<Editor renderHTML={text => text} defaultValue="see docs" />, 'https://example.com', 4);
+    expect(textarea.value).to.equal('see docs');
+  });
+
+  it('Paste text over selected text', function() {
+    const textarea = paste(<Editor renderHTML={text => text} defaultValue="see docs" />, 'not a url', 4, 8);
+    expect(textarea.value).to.equal('see docs');
+  });
+
+  it('Paste image URL', function() {
+    const element = (
+      <Editor
+        renderHTML={text => text}
+        defaultValue="a"
+        pluginConfigs={[{ comp: Plugins.Image, config: { pasteImageUrl: true } }]}
+      />
+    );
+    const textarea = paste(element, 'https://example.com/a.png', 1);
+    expect(textarea.value).to.equal('a![](https://example.com/a.png)');
+  });
+
+  it('Insert link with dialog', function() {
+    const { container, textarea } = openEditor(<Editor renderHTML={text => text} defaultValue="see docs" />, 4, 8);
+    const url = container.querySelector('.link-editor-url') as HTMLInputElement;
+    expect(url.value).to.equal('');
+    fireEvent.change(url, { target: { value: 'https://example.com' } });
+    fireEvent.change(container.querySelector('.link-editor-title') as HTMLElement, { target: { value: 'Docs' } });
+    fireEvent.keyDown(url, { key: 'Enter' });
+    expect(textarea.value).to.equal('see [docs](https://example.com "Docs")');
+    expect(container.querySelector('.link-editor')).to.be.null;
+  });
+
+  it('Prefill selected URL', function() {
+    const { container } = openEditor(<Editor renderHTML={text => text} defaultValue="https://example.com" />, 0, 19);
+    expect((container.querySelector('.link-editor-url') as HTMLInputElement).value).to.equal('https://example.com');
+  });
+
+  it('Reject invalid URL', function() {
+    const { container, textarea } = openEditor(<Editor renderHTML={text => text} defaultValue="see docs" />, 4, 8);
+    const url = container.querySelector('.link-editor-url') as HTMLInputElement;
+    fireEvent.change(url, { target: { value: 'javascript:alert(1)' } });
+    fireEvent.click(container.querySelector('.linkSave') as HTMLElement);
+    expect(textarea.value).to.equal('see docs');
+    expect(container.querySelector('.link-editor-error')).not.to.be.null;
+  });
+
+  it('Edit link at caret', function() {
+    const { container, textarea } = openEditor(
+      <Editor renderHTML={text => text} defaultValue="see [docs](https://a.com) now" />,
+      6,
+    );
+    const url = container.querySelector('.link-editor-url') as HTMLInputElement;
+    expect(url.value).to.equal('https://a.com');
+    fireEvent.change(url, { target: { value: 'https://b.com' } });
+    fireEvent.click(container.querySelector('.linkSave') as HTMLElement);
+    expect(textarea.value).to.equal('see [docs](https://b.com) now');
+  });
+
+  it('Remove link at caret', function() {
+    const { container, textarea } = openEditor(
+      <Editor renderHTML={text => text} defaultValue="see [docs](https://a.com) now" />,
+      6,
+    );
+    fireEvent.click(container.querySelector('.linkRemove') as HTMLElement);
+    expect(textarea.value).to.equal('see docs now');
+  });
+
+  it('Suggest links', function() {
+    const onLinkSuggest = (query: string) =>
+      Promise.resolve([{ url: `/pages/${query}`, title: 'Install guide' }, { url: '/pages/other' }]);
+    const { container, textarea } = openEditor(
+      <Editor renderHTML={text => text} defaultValue="see docs" onLinkSuggest={onLinkSuggest} />,
+      4,
+      8,
+    );
+    const url = container.querySelector('.link-editor-url') as HTMLInputElement;
+    fireEvent.change(url, { target: { value: 'install' } });
+    return wait(250).then(() => {
+      expect(container.querySelectorAll('.link-editor-suggestion').length).to.equal(2);
+      fireEvent.keyDown(url, { key: 'ArrowDown' });
+      fireEvent.keyDown(url, { key: 'Enter' });
+      expect(url.value).to.equal('/pages/install');
+      fireEvent.keyDown(url, { key: 'Enter' });
+      expect(textarea.value).to.equal('see [docs](/pages/install "Install guide")');
+    });
+  });
+
+  afterEach(cleanup);
+});
@@ -0,0 +1,53 @@
+import { cleanup, fireEvent, render } from '@testing-library/react';
+import { expect } from 'chai';
+import * as React from 'react';
+import Editor, { Plugins } from '../../src';
+
+const pressEnter = (value: string, position: number = value.length, tabMapValue?: number) => {
+  const pluginConfigs: { comp: any; config: any }[] = [{ comp: Plugins.ListContinuation, config: {} }];
+  if (typeof tabMapValue !== 'undefined') {
+    pluginConfigs.push({ comp: Plugins.TabInsert, config: { tabMapValue } });
+  }
+  const { container } = render(<Editor renderHTML={text => text} defaultValue={value} pluginConfigs={pluginConfigs} />);
+  const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+  textarea.setSelectionRange(position, position, 'forward');
+  fireEvent.keyDown(textarea, { key: 'Enter', keyCode: 13 });
+  return textarea.value;
+}
+
+describe('Test ListContinuation', function() {
+  it('Continue unordered list', function() {
+    expect(pressEnter('* a')).to.equal('* a\n* ');
+  });
+
+  it('Increase order', function() {
+    expect(pressEnter('1. a\n2. b', 4)).to.equal('1. a\n2. \n2. b');
+  });
+
+  it('Continue task list and quote', function() {
+    expect(pressEnter('- [x] a')).to.equal('- [x] a\n- [ ] ');
+    expect(pressEnter('> a')).to.equal('> a\n> ');
+  });
+
+  it('End list on empty item', function() {
+    expect(pressEnter('* a\n* ')).to.equal('* a\n');
+    expect(pressEnter('> a\n> ')).to.equal('> a\n');
+  });
+
+  it('Outdent empty nested item', function() {
+    expect(pressEnter('1. a\n\t* b\n\t* ')).to.equal('1. a\n\t* b\n2. ');
+  });
+
+  it('Outdent by tabMapValue of tab-insert', function() {
+    const value = '* a\n  * b\n    * c\n    * ';
+    expect(pressEnter(value, value.length, 2)).to.equal('* a\n  * b\n    * c\n  * ');
+    expect(pressEnter(value)).to.equal('* a\n  * b\n    * c\n* ');
+    expect(pressEnter('    - [x] ', 10, 2)).to.equal('  - [ ] ');
+  });
+
+  it('Ignore other lines', function() {
+    expect(pressEnter('a')).to.equal('a');
+  });
+
+  afterEach(cleanup);
+});
@@ -0,0 +1,58 @@
+import { cleanup, fireEvent, render } from '@testing-library/react';
+import { expect } from 'chai';
+import * as React from 'react';
+import Editor from '../../src';
+
+describe('Test ListTask', function() {
+  it('Insert task list', function() {
+    const { container } = render(<Editor renderHTML={text => text} defaultValue={'a\n* b'} />);
+    const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+    textarea.setSelectionRange(0, 5, 'forward');
+    fireEvent.click(container.querySelector('.button-type-task') as HTMLElement);
+    expect(textarea.value).to.equal('- [ ] a\n* [ ] b');
+  });
+
+  it('Insert task list on empty line', function() {
+    const { container } = render(<Editor renderHTML={text => text} defaultValue={'a\n\nb'} />);
+    const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+    textarea.setSelectionRange(2, 2, 'forward');
+    fireEvent.click(container.querySelector('.button-type-task') as HTMLElement);
+    expect(textarea.value).to.equal('a\n- [ ] \nb');
+  });
+
+  it('Convert task list to unordered list', function() {
+    const { container } = render(<Editor renderHTML={text => text} defaultValue={'- [ ] a\n- [x] b'} />);
+    const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+    textarea.setSelectionRange(0, 15, 'forward');
+    fireEvent.click(container.querySelector('.button-type-unordered') as HTMLElement);
+    expect(textarea.value).to.equal('- a\n- b');
+  });
+
+  it('Toggle task in preview', function() {
+    const value = '```\n- [ ] code\n```\n- [ ] a\n- [x] b';
+    // Task items in code blocks are not rendered as checkboxes
+    const html = '<pre>- [ ] code</pre><input type="checkbox" /><input type="checkbox" checked />';
+    const { container } = render(<Editor renderHTML={() => html} defaultValue={value} />);
+    const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+    const checkboxes = container.querySelectorAll('.html-wrap input[type="checkbox"]');
+    fireEvent.click(checkboxes[1]);
+    expect(textarea.value).to.equal('```\n- [ ] code\n```\n- [ ] a\n- [ ] b');
+  });
+
+  it('Toggle disabled task in preview', function() {
+    // markdown-it-task-lists renders disabled checkboxes, clicks on them land on the list item
+    const html = '<ul><li><input type="checkbox" disabled /> a</li><li><input type="checkbox" disabled /> b</li></ul>';
+    const { container } = render(<Editor renderHTML={() => html} defaultValue={'- [ ] a\n- [ ] b'} />);
+    const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+    const items = container.querySelectorAll('.html-wrap li');
+    const checkbox = items[1].querySelector('input') as HTMLInputElement;
+    checkbox.getBoundingClientRect = () => ({ left: 0, right: 13, top: 20, bottom: 33 } as DOMRect);
+    // Clicking the text of the item does nothing
+    fireEvent.click(items[1], { clientX: 40, clientY: 25 });
+    expect(textarea.value).to.equal('- [ ] a\n- [ ] b');
+    fireEvent.click(items[1], { clientX: 5, clientY: 25 });
+    expect(textarea.value).to.equal('- [ ] a\n- [x] b');
+  });
+
+  afterEach(cleanup);
+});
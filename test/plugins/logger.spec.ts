@@ -7,8 +7,8 @@ describe("Test Logger", function() {
       const logger = new Logger();
       logger.push('S');
       logger.push('Sh');
-      expect(logger.undo('She')).to.equal('Sh');
-      expect(logger.undo('Sh')).to.equal('S');
+      expect(logger.undo('She')!.value).to.equal('Sh');
+      expect(logger.undo('Sh')!.value).to.equal('S');
     });
 
     it("Return previous if top is current", function() {
@@ -16,13 +16,87 @@ describe("Test Logger", function() {
       logger.push('S');
       logger.push('Sh');
       logger.push('She');
-      expect(logger.undo('She')).to.equal('Sh');
+      expect(logger.undo('She')!.value).to.equal('Sh');
     });
 
     it("Will return initValue", function() {
       const logger = new Logger();
       logger.initValue = 'init';
-      expect(logger.undo()).to.equals('init');
-    })
+      expect(logger.undo()!.value).to.equals('init');
+    });
+
+    it("Restore selection before the change", function() {
+      const logger = new Logger();
+      logger.initValue = 'Hello World';
+      logger.push('Hello big World');
+      expect(logger.undo('Hello big World')).to.deep.equal({
+        value: 'Hello World',
+        selection: { start: 6, end: 6 },
+      });
+    });
+
+    it("Select replaced text", function() {
+      const logger = new Logger();
+      logger.initValue = 'Hello World';
+      logger.push('Hello Earth');
+      expect(logger.undo('Hello Earth')!.selection).to.deep.equal({ start: 6, end: 11 });
+    });
+  });
+
+  describe("redo", function() {
+    it("Restore selection after the change", function() {
+      const logger = new Logger();
+      logger.initValue = 'Hello World';
+      logger.push('Hello big World');
+      logger.undo('Hello big World');
+      expect(logger.redo()).to.deep.equal({
+        value: 'Hello big World',
+        selection: { start: 10, end: 10 },
+      });
+    });
+
+    it("Keep history after undo and redo", function() {
+      const logger = new Logger();
+      logger.push('a');
+      logger.push('ab');
+      logger.push('abc');
+      logger.undo('abc');
+      logger.redo();
+      expect(logger.undo('abc')!.value).to.equal('ab');
+      expect(logger.undo('ab')!.value).to.equal('a');
+    });
+  });
+
+  describe("storage", function() {
+    it("Save patches instead of full text", function() {
+      const logger = new Logger();
+      logger.initValue = 'Hello World';
+      logger.push('Hello big World');
+      expect(logger.get()).to.deep.equal([{ start: 6, removed: '', inserted: 'big ' }]);
+    });
+
+    it("Limit total size of history", function() {
+      const logger = new Logger();
+      const big = 'a'.repeat(300 * 1024);
+      logger.push(big);
+      logger.push(big + big);
+      logger.push(big + big + big);
+      logger.push(big + big + big + big);
+      expect(logger.getUndoCount()).to.equal(3);
+      expect(logger.undo(big + big + big + big)!.value).to.equal(big + big + big);
+      expect(logger.undo(big + big + big)!.value).to.equal(big + big);
+      expect(logger.undo(big + big)!.value).to.equal(big);
+      expect(logger.undo(big)!.value).to.equal(big);
+    });
+  });
+
+  it("Count", function() {
+    const logger = new Logger();
+    logger.push('a');
+    logger.push('ab');
+    expect(logger.getUndoCount()).to.equal(2);
+    logger.undo('ab');
+    expect(logger.getUndoCount()).to.equal(1);
+    expect(logger.getRedoCount()).to.equal(1);
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,60 @@
+import { cleanup, fireEvent, render } from '@testing-library/react';
+import { expect } from 'chai';
+import * as React from 'react';
+import Editor, { Plugins } from '../../src';
+
+const renderEditor = (value: string) => {
+  const { container } = render(
+    <Editor renderHTML={text => text} defaultValue={value} pluginConfigs={[{ comp: Plugins.Outline, config: {} }]} />,
+  );
+  fireEvent.click(container.querySelector('.button-type-outline') as HTMLElement);
+  return { container, textarea: container.querySelector('textarea') as HTMLTextAreaElement };
+};
+
+const wait = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('Test Outline', function() {
+  it('Show outline', function() {
+    const { container } = renderEditor('# A\n\n## B\n\n## C\n\n# D');
+    const items = container.querySelectorAll('.outline-item');
+    expect(Array.prototype.map.call(items, (it: Element) => it.textContent)).to.deep.equal(['A', 'B', 'C', 'D']);
+    // 折叠
+    fireEvent.click(container.querySelector('.outline-toggle') as HTMLElement);
+    expect(container.querySelectorAll('.outline-item').length).to.equal(2);
+    fireEvent.click(container.querySelector('.button-type-outline') as HTMLElement);
+    expect(container.querySelector('.outline-panel')).to.be.null;
+  });
+
+  it('Update outline on change', function() {
+    const { container, textarea } = renderEditor('# A');
+    fireEvent.change(textarea, { target: { value: '# A\n\n## B' } });
+    expect(container.querySelectorAll('.outline-item').length).to.equal(2);
+  });
+
+  it('Move to heading', function() {
+    const { container, textarea } = renderEditor('# A\n\ntext\n\n## B');
+    fireEvent.click(container.querySelectorAll('.outline-item')[1]);
+    expect(textarea.selectionStart).to.equal(11);
+  });
+
+  it('Insert TOC', function() {
+    const { container, textarea } = renderEditor('# A\n\n## B');
+    textarea.setSelectionRange(3, 3, 'forward');
+    fireEvent.click(container.querySelector('.outline-insert-toc') as HTMLElement);
+    expect(textarea.value).to.equal('# A\n\n* [A](#a)\n  * [B](#b)\n\n## B');
+    return wait();
+  });
+
+  it('Remove outline on unmount', function() {
+    const { container, rerender } = render(
+      <Editor renderHTML={text => text} defaultValue="# A" pluginConfigs={[{ comp: Plugins.Outline, config: {} }]} />,
+    );
+    fireEvent.click(container.querySelector('.button-type-outline') as HTMLElement);
+    expect(container.querySelector('.sec-side')).not.to.be.null;
+    rerender(<Editor renderHTML={text => text} defaultValue="# A" pluginConfigs={[]} />);
+    expect(container.querySelector('.button-type-outline')).to.be.null;
+    expect(container.querySelector('.sec-side')).to.be.null;
+  });
+
+  afterEach(cleanup);
+});
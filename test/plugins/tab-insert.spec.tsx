@@ -0,0 +1,44 @@
+import { cleanup, fireEvent, render } from '@testing-library/react';
+import { expect } from 'chai';
+import * as React from 'react';
+import Editor, { Plugins } from '../../src';
+
+const pressTab = (value: string, start: number, end: number = start, shiftKey: boolean = false) => {
+  const { container } = render(<Editor
+    renderHTML={text => text}
+    defaultValue={value}
+    pluginConfigs={[{ comp: Plugins.TabInsert, config: { tabMapValue: 2 } }]}
+  />);
+  const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+  textarea.setSelectionRange(start, end, 'forward');
+  fireEvent.keyDown(textarea, { key: 'Tab', keyCode: 9, shiftKey });
+  return textarea;
+}
+
+describe('Test TabInsert', function() {
+  it('Insert spaces', function() {
+    expect(pressTab('ab', 1).value).to.equal('a  b');
+  });
+
+  it('Indent list item', function() {
+    const textarea = pressTab('* a\n* b', 6);
+    expect(textarea.value).to.equal('* a\n  * b');
+    return new Promise(resolve => setTimeout(resolve, 10)).then(() => {
+      expect(textarea.selectionStart).to.equal(8);
+    });
+  });
+
+  it('Indent and renumber ordered list', function() {
+    expect(pressTab('1. a\n2. b\n3. c', 7).value).to.equal('1. a\n  1. b\n2. c');
+  });
+
+  it('Outdent and renumber ordered list', function() {
+    expect(pressTab('1. a\n  1. b\n2. c', 9, 9, true).value).to.equal('1. a\n2. b\n3. c');
+  });
+
+  it('Outdent multiple lines', function() {
+    expect(pressTab('  a\n  b\nc', 0, 7, true).value).to.equal('a\nb\nc');
+  });
+
+  afterEach(cleanup);
+});
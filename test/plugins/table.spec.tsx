@@ -0,0 +1,109 @@
+import { cleanup, fireEvent, render } from '@testing-library/react';
+import { expect } from 'chai';
+import * as React from 'react';
+import Editor, { Plugins } from '../../src';
+
+const pressKey = (value: string, position: number, key: string, shiftKey: boolean = false) => {
+  const { container } = render(<Editor
+    renderHTML={text => text}
+    defaultValue={value}
+    pluginConfigs={[{ comp: Plugins.TabInsert, config: { tabMapValue: 2 } }]}
+  />);
+  const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+  textarea.setSelectionRange(position, position, 'forward');
+  fireEvent.keyDown(textarea, { key, keyCode: key === 'Tab' ? 9 : 13, shiftKey });
+  return textarea;
+};
+
+const wait = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('Test Table', function() {
+  it('Edit table at caret', function() {
+    const value = '|a|b|\n|-|-|\n|1|2|';
+    const { container } = render(<Editor renderHTML={text => text} defaultValue={value} />);
+    const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+    textarea.setSelectionRange(15, 15, 'forward');
+    fireEvent.mouseEnter(container.querySelector('.button-type-table') as HTMLElement);
+    fireEvent.click(container.querySelector('.tableInsertColumnRight') as HTMLElement);
+    expect(textarea.value).to.equal('| a   | b   |     |\n| --- | --- | --- |\n| 1   | 2   |     |');
+  });
+
+  it('Insert table outside tables', function() {
+    const { container } = render(<Editor renderHTML={text => text} defaultValue="text" />);
+    fireEvent.mouseEnter(container.querySelector('.button-type-table') as HTMLElement);
+    expect(container.querySelector('.table-editor')).to.be.null;
+    expect(container.querySelector('.table-list')).not.to.be.null;
+  });
+
+  it('Move to next cell with Tab', function() {
+    const textarea = pressKey('|a|b|\n|-|-|\n|1|2|', 1, 'Tab');
+    expect(textarea.value).to.equal('| a   | b   |\n| --- | --- |\n| 1   | 2   |');
+    return wait().then(() => {
+      expect(textarea.selectionStart).to.equal(8);
+      expect(textarea.selectionEnd).to.equal(9);
+    });
+  });
+
+  it('Add row with Tab in last cell', function() {
+    const textarea = pressKey('|a|b|\n|-|-|\n|1|2|', 15, 'Tab');
+    expect(textarea.value).to.equal('| a   | b   |\n| --- | --- |\n| 1   | 2   |\n|     |     |');
+    return wait().then(() => {
+      expect(textarea.selectionStart).to.equal(44);
+    });
+  });
+
+  it('Move to previous cell with Shift+Tab', function() {
+    const textarea = pressKey('|a|b|\n|-|-|\n|1|2|', 13, 'Tab', true);
+    return wait().then(() => {
+      expect(textarea.selectionStart).to.equal(8);
+    });
+  });
+
+  it('Add row with Enter at end of row', function() {
+    const textarea = pressKey('|a|b|\n|-|-|\n|1|2|', 5, 'Enter');
+    expect(textarea.value).to.equal('| a   | b   |\n| --- | --- |\n|     |     |\n| 1   | 2   |');
+    return wait().then(() => {
+      expect(textarea.selectionStart).to.equal(30);
+    });
+  });
+
+  it('Leave table with Enter on empty last row', function() {
+    const textarea = pressKey('|a|b|\n|-|-|\n|1|2|\n| | |\n\ntext', 23, 'Enter');
+    expect(textarea.value).to.equal('| a   | b   |\n| --- | --- |\n| 1   | 2   |\n\ntext');
+    return wait().then(() => {
+      expect(textarea.selectionStart).to.equal(42);
+    });
+  });
+
+  it('Leave table at the end of text', function() {
+    const textarea = pressKey('|a|b|\n|-|-|\n| | |', 17, 'Enter');
+    expect(textarea.value).to.equal('| a   | b   |\n| --- | --- |\n');
+    return wait().then(() => {
+      expect(textarea.selectionStart).to.equal(28);
+    });
+  });
+
+  it('Work with tab-insert registered first', function() {
+    const { container } = render(<Editor
+      renderHTML={text => text}
+      defaultValue={'|a|b|\n|-|-|\n|1|2|'}
+      plugins={['tab-insert', 'table']}
+      pluginConfigs={[{ comp: Plugins.TabInsert, config: { tabMapValue: 2 } }]}
+    />);
+    const textarea = container.querySelector('textarea') as HTMLTextAreaElement;
+    textarea.setSelectionRange(1, 1, 'forward');
+    fireEvent.keyDown(textarea, { key: 'Tab', keyCode: 9 });
+    expect(textarea.value).to.equal('| a   | b   |\n| --- | --- |\n| 1   | 2   |');
+    return wait();
+  });
+
+  it('Keep Enter inside a cell', function() {
+    expect(pressKey('|a|b|\n|-|-|', 2, 'Enter').value).to.equal('|a|b|\n|-|-|');
+  });
+
+  it('Insert tab outside tables', function() {
+    expect(pressKey('text\n\n|a|b|\n|-|-|', 1, 'Tab').value).to.equal('t  ext\n\n|a|b|\n|-|-|');
+  });
+
+  afterEach(cleanup);
+});
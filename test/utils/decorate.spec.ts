@@ -67,4 +67,172 @@ describe('Test getDecorated', function() {
       text: "\n| Head | Head |\n| --- | --- |\n| Data | Data |\n| Data | Data |\n| Data | Data |\n| Data | Data |\n"
     });
   });
-});
\ No newline at end of file
+  // 移除已有的格式
+  describe('Toggle', function() {
+    const context = (before: string, after: string) => ({ context: { before, after } });
+
+    it('Bold inside selection', function() {
+      expect(getDecorated('**text**', 'bold', context('', ''))).to.deep.equal({
+        text: "text",
+        selection: {
+          start: 0,
+          end: 4
+        }
+      });
+    });
+    it('Bold around selection', function() {
+      expect(getDecorated('text', 'bold', context('a **', '** b'))).to.deep.equal({
+        text: "text",
+        selection: {
+          start: 0,
+          end: 4
+        },
+        extend: {
+          before: 2,
+          after: 2
+        }
+      });
+    });
+    it('Italic should not remove bold', function() {
+      expect(getDecorated('text', 'italic', context('**', '**')).text).to.equal('*text*');
+      expect(getDecorated('text', 'italic', context('***', '***')).extend).to.deep.equal({
+        before: 1,
+        after: 1
+      });
+    });
+    it('Separate spans should be wrapped', function() {
+      expect(getDecorated('*a* and *b*', 'italic', context('', '')).text).to.equal('**a* and *b**');
+      expect(getDecorated('**a** and **b**', 'bold', context('', '')).text).to.equal('****a** and **b****');
+      // 转义的标记不影响
+      expect(getDecorated('*a\\* b*', 'italic', context('', '')).text).to.equal('a\\* b');
+    });
+    it('Inline code', function() {
+      expect(getDecorated('text', 'inlinecode', context('`', '`')).extend).to.deep.equal({
+        before: 1,
+        after: 1
+      });
+    });
+    it('Quote', function() {
+      expect(getDecorated('a\n> b', 'quote', context('> ', ''))).to.deep.equal({
+        text: "a\nb",
+        selection: {
+          start: 0,
+          end: 3
+        },
+        extend: {
+          before: 2,
+          after: 0
+        }
+      });
+    });
+    it('Header', function() {
+      expect(getDecorated('', 'h2', context('## tit', 'le'))).to.deep.equal({
+        text: "title",
+        selection: {
+          start: 3,
+          end: 3
+        },
+        extend: {
+          before: 6,
+          after: 2
+        }
+      });
+      // 不同级别的标题会被替换
+      expect(getDecorated('', 'h1', context('## tit', 'le')).text).to.equal('# title');
+    });
+    it('List', function() {
+      expect(getDecorated('* a\n  * b', 'unordered', context('', '')).text).to.equal('a\n  b');
+      expect(getDecorated('1. a\n2. b', 'order', context('', '')).text).to.equal('a\nb');
+      expect(getDecorated('a\n* b', 'unordered', context('', '')).extend).to.be.undefined;
+    });
+  });
+  // 按整行处理
+  describe('Block', function() {
+    const context = (before: string, after: string) => ({ context: { before, after } });
+
+    it('Header', function() {
+      expect(getDecorated('', 'h2', context('tit', 'le'))).to.deep.equal({
+        text: "## title",
+        selection: {
+          start: 6,
+          end: 6
+        },
+        extend: {
+          before: 3,
+          after: 2
+        }
+      });
+    });
+    it('Header on empty line', function() {
+      expect(getDecorated('', 'h1', context('', ''))).to.deep.equal({
+        text: "# ",
+        selection: {
+          start: 2,
+          end: 2
+        },
+        extend: {
+          before: 0,
+          after: 0
+        }
+      });
+      expect(getDecorated('', 'h2', context('  ', '')).text).to.equal('## ');
+    });
+    it('Change header level', function() {
+      expect(getDecorated('title', 'h2', context('# ', '')).text).to.equal('## title');
+    });
+    it('Quote', function() {
+      expect(getDecorated('a\n\nb', 'quote', context('', ''))).to.deep.equal({
+        text: "> a\n>\n> b",
+        selection: {
+          start: 2,
+          end: 9
+        },
+        extend: {
+          before: 0,
+          after: 0
+        }
+      });
+    });
+    it('Quote with mixed lines', function() {
+      expect(getDecorated('> a\nb', 'quote', context('', '')).text).to.equal('> a\n> b');
+    });
+    it('Task', function() {
+      expect(getDecorated('a\n* b', 'task', context('', '')).text).to.equal('- [ ] a\n* [ ] b');
+      expect(getDecorated('a\n* [x] b', 'task', context('- [ ] ', '')).text).to.equal('- a\n* b');
+    });
+    it('Task with mixed lines', function() {
+      expect(getDecorated('- [ ] a\nb', 'task', context('', '')).text).to.equal('- [ ] a\n- [ ] b');
+      expect(getDecorated('* [X] a\n* b\nc', 'task', context('', '')).text).to.equal('* [X] a\n* [ ] b\n- [ ] c');
+    });
+    it('Task on empty line', function() {
+      expect(getDecorated('', 'task', context('', ''))).to.deep.equal({
+        text: "- [ ] ",
+        selection: {
+          start: 6,
+          end: 6
+        },
+        extend: {
+          before: 0,
+          after: 0
+        }
+      });
+    });
+    it('Unordered list from task list', function() {
+      expect(getDecorated('- [ ] a\n  - [x] b', 'unordered', context('', '')).text).to.equal('- a\n  - b');
+      expect(getDecorated('- [ ] a\nb', 'unordered', context('', '')).text).to.equal('- a\n* b');
+    });
+    it('Code', function() {
+      expect(getDecorated('b', 'code', context('a', 'c'))).to.deep.equal({
+        text: "```\nabc\n```",
+        selection: {
+          start: 4,
+          end: 7
+        },
+        extend: {
+          before: 1,
+          after: 1
+        }
+      });
+    });
+  });
+});
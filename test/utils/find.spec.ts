@@ -0,0 +1,37 @@
+import { findMatches, getFindRegExp, getReplacement } from '../../src/utils/find';
+import { expect } from 'chai';
+
+const toRanges = (text: string, query: string, options = {}) =>
+  findMatches(text, query, options).map(it => [it.start, it.end]);
+
+describe('Test find', function() {
+  it('Find text', function() {
+    expect(toRanges('Foo foo a.b', 'foo')).to.deep.equal([[0, 3], [4, 7]]);
+    expect(toRanges('Foo foo a.b', 'foo', { caseSensitive: true })).to.deep.equal([[4, 7]]);
+    // 非正则表达式模式下，特殊字符按原样查找
+    expect(toRanges('Foo foo a.b axb', 'a.b')).to.deep.equal([[8, 11]]);
+    expect(toRanges('foo', '')).to.deep.equal([]);
+  });
+
+  it('Find whole word', function() {
+    expect(toRanges('cat concat cat_ cat.', 'cat', { wholeWord: true })).to.deep.equal([[0, 3], [16, 19]]);
+    // 不是全字匹配时，从下一个字符继续查找
+    expect(toRanges('aaa aa', 'aa', { wholeWord: true })).to.deep.equal([[4, 6]]);
+  });
+
+  it('Find regular expression', function() {
+    expect(toRanges('a1\nb22', '\\d+', { regex: true })).to.deep.equal([[1, 2], [4, 6]]);
+    expect(toRanges('a1\nb22', '^b', { regex: true })).to.deep.equal([[3, 4]]);
+    // 忽略空的匹配
+    expect(toRanges('ab', 'x*', { regex: true })).to.deep.equal([]);
+    expect(getFindRegExp('(', { regex: true })).to.be.undefined;
+    expect(toRanges('(', '(', { regex: true })).to.deep.equal([]);
+  });
+
+  it('Get replacement', function() {
+    const [match] = findMatches('John Smith', '(\\w+) (\\w+)', { regex: true });
+    expect(getReplacement(match, '$2, $1', { regex: true })).to.equal('Smith, John');
+    expect(getReplacement(match, '[$&] $$1 $12 $3', { regex: true })).to.equal('[John Smith] $1 John2 $3');
+    expect(getReplacement(match, '$2, $1')).to.equal('$2, $1');
+  });
+});
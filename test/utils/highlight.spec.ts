@@ -0,0 +1,58 @@
+import { getHighlightTokens } from '../../src/utils/highlight';
+import { expect } from 'chai';
+
+const toTypes = (text: string) =>
+  getHighlightTokens(text).map(line => line.map(it => (it.type ? `${it.type}:${it.text}` : it.text)));
+
+describe('Test highlight', function() {
+  it('Highlight blocks', function() {
+    const text = ['# Title', 'Setext', '---', '', '```js', '# code', '```', '***'].join('\n');
+    expect(toTypes(text)).to.deep.equal([
+      ['heading:# Title'],
+      ['heading:Setext'],
+      ['heading:---'],
+      [],
+      ['code-block:```js'],
+      ['code-block:# code'],
+      ['code-block:```'],
+      ['hr:***'],
+    ]);
+  });
+
+  it('Highlight lists and quotes', function() {
+    expect(toTypes('> * [ ] task\n  1. item')).to.deep.equal([
+      ['quote:> ', 'list:* [ ] ', 'task'],
+      ['list:  1. ', 'item'],
+    ]);
+  });
+
+  it('Highlight inline syntax', function() {
+    const text = 'a **b** _c_ ~~d~~ `e*f*` [g](h) ![i](j) https://k.com';
+    expect(toTypes(text)).to.deep.equal([
+      [
+        'a ',
+        'strong:**b**',
+        ' ',
+        'emphasis:_c_',
+        ' ',
+        'strikethrough:~~d~~',
+        ' ',
+        'code:`e*f*`',
+        ' ',
+        'link:[g](h)',
+        ' ',
+        'image:![i](j)',
+        ' ',
+        'url:https://k.com',
+      ],
+    ]);
+  });
+
+  it('Keep original text', function() {
+    const text = '# A\n\n- **b** [c](d)\n> e\n\n```\nf\n';
+    const joined = getHighlightTokens(text)
+      .map(line => line.map(it => it.text).join(''))
+      .join('\n');
+    expect(joined).to.equal(text);
+  });
+});
@@ -0,0 +1,41 @@
+import { htmlToMarkdown } from '../../src/utils/html';
+import { expect } from 'chai';
+
+describe('Test htmlToMarkdown', function() {
+  it('Headings and paragraphs', function() {
+    expect(htmlToMarkdown('<h2>Title</h2>\n<p>Hello <b>bold</b> and <em>italic </em>text</p>')).to.equal(
+      '## Title\n\nHello **bold** and *italic* text',
+    );
+  });
+
+  it('Links and images', function() {
+    expect(htmlToMarkdown('<a href="https://example.com" title="Ex">link</a> <img src="a.png" alt="A">')).to.equal(
+      '[link](https://example.com "Ex") ![A](a.png)',
+    );
+  });
+
+  it('Lists', function() {
+    const html = '<ul>\n<li>a\n<ol start="3"><li>b</li><li>c</li></ol></li>\n<li><input type="checkbox" checked> d</li></ul>';
+    expect(htmlToMarkdown(html)).to.equal('* a\n  3. b\n  4. c\n* [x] d');
+  });
+
+  it('Code', function() {
+    const html = '<p>use <code>a`b</code></p><pre><code class="language-js">const a = 1;\n</code></pre>';
+    expect(htmlToMarkdown(html)).to.equal('use `` a`b ``\n\n```js\nconst a = 1;\n```');
+  });
+
+  it('Tables', function() {
+    const html = '<table><tr><th>a</th><th align="right">b</th></tr><tr><td>1</td><td>2|3</td></tr></table>';
+    expect(htmlToMarkdown(html)).to.equal('| a   |    b |\n| --- | ---: |\n| 1   | 2\\|3 |');
+  });
+
+  it('Google Docs styles', function() {
+    const html =
+      '<meta charset="utf-8"><b style="font-weight:normal;" id="docs-internal-guid-1"><p><span style="font-weight:700">bold</span> <span style="font-style:italic">italic</span></p></b>';
+    expect(htmlToMarkdown(html)).to.equal('**bold** *italic*');
+  });
+
+  it('Blockquote and escape', function() {
+    expect(htmlToMarkdown('<blockquote><p>a*b</p><p>c</p></blockquote>')).to.equal('> a\\*b\n>\n> c');
+  });
+});
@@ -0,0 +1,60 @@
+import { formatImage, formatSize, getImageAt, getScaledSize, processImage, replaceExtension } from '../../src/utils/image';
+import { expect } from 'chai';
+
+describe('Test image', function() {
+  it('Scaled size', function() {
+    expect(getScaledSize(4000, 3000, { maxWidth: 2000 })).to.deep.equal({ width: 2000, height: 1500 });
+    expect(getScaledSize(4000, 3000, { maxWidth: 2000, maxHeight: 1000 })).to.deep.equal({ width: 1333, height: 1000 });
+    expect(getScaledSize(400, 300, { maxWidth: 2000 })).to.deep.equal({ width: 400, height: 300 });
+  });
+
+  it('Format size', function() {
+    expect(formatSize(100)).to.equal('100B');
+    expect(formatSize(1536)).to.equal('1.5KB');
+    expect(formatSize(8 * 1024 * 1024)).to.equal('8MB');
+  });
+
+  it('Replace extension', function() {
+    expect(replaceExtension('photo.PNG', 'image/jpeg')).to.equal('photo.jpg');
+    expect(replaceExtension('my.photo.png', 'image/webp')).to.equal('my.photo.webp');
+    expect(replaceExtension('photo', 'image/jpeg')).to.equal('photo.jpg');
+  });
+
+  it('Keep image without processing', function() {
+    const file = new File(['gif'], 'a.gif', { type: 'image/gif' });
+    return processImage(file, { maxWidth: 100, type: 'image/webp' }).then(result => {
+      expect(result).to.equal(file);
+    });
+  });
+
+  it('Reject large image', function() {
+    const file = new File(['a'.repeat(2048)], 'a.png', { type: 'image/png' });
+    return processImage(file, { maxSize: 1024 }).then(
+      () => {
+        throw new Error('Should be rejected');
+      },
+      error => {
+        expect(error.message).to.equal('Image a.png is 2KB, larger than the limit of 1KB');
+      },
+    );
+  });
+
+  it('Get image at caret', function() {
+    const text = 'a ![logo \\[1\\]](https://example.com/a.png "The \\"logo\\"") b\n![](b.png)';
+    expect(getImageAt(text, 5)).to.deep.equal({
+      start: 2,
+      end: 57,
+      image: { alt: 'logo [1]', url: 'https://example.com/a.png', title: 'The "logo"' },
+    });
+    expect(getImageAt(text, 1)).to.be.undefined;
+    expect(getImageAt(text, 62)).to.deep.equal({ start: 60, end: 70, image: { alt: '', url: 'b.png', title: '' } });
+    expect(getImageAt('![a](<my image.png>)', 3)!.image.url).to.equal('my image.png');
+  });
+
+  it('Format image', function() {
+    expect(formatImage({ alt: 'logo [1]', url: 'a.png', title: 'The "logo"' })).to.equal(
+      '![logo \\[1\\]](a.png "The \\"logo\\"")',
+    );
+    expect(formatImage({ alt: '', url: 'my image.png', title: '' })).to.equal('![](<my image.png>)');
+  });
+});
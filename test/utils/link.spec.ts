@@ -0,0 +1,34 @@
+import { formatLink, getLinkAt, isValidLink } from '../../src/utils/link';
+import { expect } from 'chai';
+
+describe('Test link', function() {
+  it('Get link at caret', function() {
+    const text = 'see [the **docs**](https://example.com "The \\"docs\\"") and ![a](a.png)';
+    expect(getLinkAt(text, 6)).to.deep.equal({
+      start: 4,
+      end: 54,
+      link: { text: 'the **docs**', url: 'https://example.com', title: 'The "docs"' },
+    });
+    expect(getLinkAt(text, 2)).to.be.undefined;
+    // 图片不是链接
+    expect(getLinkAt(text, 64)).to.be.undefined;
+    expect(getLinkAt('[a](<my page.md>)', 1)!.link.url).to.equal('my page.md');
+  });
+
+  it('Format link', function() {
+    expect(formatLink({ text: 'docs', url: 'https://example.com', title: 'The "docs"' })).to.equal(
+      '[docs](https://example.com "The \\"docs\\"")',
+    );
+    expect(formatLink({ text: 'docs', url: 'my page.md', title: '' })).to.equal('[docs](<my page.md>)');
+  });
+
+  it('Validate link', function() {
+    expect(isValidLink('https://example.com/a?b=1')).to.be.true;
+    expect(isValidLink('mailto:a@example.com')).to.be.true;
+    expect(isValidLink('/docs/intro.md#install')).to.be.true;
+    expect(isValidLink('#install')).to.be.true;
+    expect(isValidLink('')).to.be.false;
+    expect(isValidLink('https://')).to.be.false;
+    expect(isValidLink('javascript:alert(1)')).to.be.false;
+  });
+});
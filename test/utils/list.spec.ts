@@ -0,0 +1,43 @@
+import { getListItem, getNextListPrefix, renumberList } from '../../src/utils/list';
+import { expect } from 'chai';
+
+describe('Test list', function() {
+  it('Parse list item', function() {
+    expect(getListItem('  * text')).to.deep.equal({
+      quote: '',
+      indent: '  ',
+      bullet: '*',
+      order: undefined,
+      space: ' ',
+      task: '',
+      content: 'text',
+    });
+    expect(getListItem('> 3. [x] text')).to.deep.include({
+      quote: '> ',
+      bullet: '3.',
+      order: 3,
+      task: '[x] ',
+      content: 'text',
+    });
+    expect(getListItem('text')).to.be.undefined;
+  });
+
+  it('Next prefix', function() {
+    expect(getNextListPrefix(getListItem('- text')!)).to.equal('- ');
+    expect(getNextListPrefix(getListItem('\t9) text')!)).to.equal('\t10) ');
+    expect(getNextListPrefix(getListItem('* [x] text')!)).to.equal('* [ ] ');
+    expect(getNextListPrefix(getListItem('> text')!)).to.equal('> ');
+  });
+
+  it('Renumber', function() {
+    expect(renumberList(['3. a', '\t5. b', '\t7. c', '1. d', '', '1. e'])).to.deep.equal([
+      '3. a',
+      '\t1. b',
+      '\t2. c',
+      '4. d',
+      '',
+      '5. e',
+    ]);
+    expect(renumberList(['1. a', 'text', '1. b'])).to.deep.equal(['1. a', 'text', '1. b']);
+  });
+});
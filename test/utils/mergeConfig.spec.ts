@@ -15,4 +15,10 @@ describe("Test mergeConfig", function() {
     const res = mergeConfig(obj1, obj2, obj3);
     expect(res).to.deep.equal({ a: 2, b: 5 });
   });
+  it("Merge objects without default value", function() {
+    const obj1 = { a: undefined, b: { c: 1 } };
+    const obj2 = { a: { d: 2 }, b: null };
+    const res = mergeConfig(obj1, obj2);
+    expect(res).to.deep.equal({ a: { d: 2 }, b: null });
+  });
 });
\ No newline at end of file
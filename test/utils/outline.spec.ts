@@ -0,0 +1,25 @@
+import { getHeadings, getSlug, getToc } from '../../src/utils/outline';
+import { expect } from 'chai';
+
+describe('Test outline', function() {
+  it('Get headings', function() {
+    const text = ['# Getting **started**', '', 'Setext', '===', '```', '# code', '```', '### [API](api.md) #'].join('\n');
+    expect(getHeadings(text)).to.deep.equal([
+      { line: 0, level: 1, text: 'Getting started', slug: 'getting-started' },
+      { line: 2, level: 1, text: 'Setext', slug: 'setext' },
+      { line: 7, level: 3, text: 'API', slug: 'api' },
+    ]);
+  });
+
+  it('Get slug', function() {
+    const used = {};
+    expect(getSlug('What’s new in v2.0?', used)).to.equal('what’s-new-in-v20');
+    expect(getSlug('FAQ', used)).to.equal('faq');
+    expect(getSlug('FAQ', used)).to.equal('faq-1');
+  });
+
+  it('Get TOC', function() {
+    const headings = getHeadings('## Install\n### npm\n## Usage');
+    expect(getToc(headings)).to.equal('* [Install](#install)\n  * [npm](#npm)\n* [Usage](#usage)');
+  });
+});
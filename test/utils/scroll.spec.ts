@@ -0,0 +1,22 @@
+import { getHeadingLines, mapScrollTop } from '../../src/utils/scroll';
+import { expect } from 'chai';
+
+describe('Test scroll', function() {
+  it('Get heading lines', function() {
+    const text = ['# Title', '', 'text', '```', '# not heading', '```', 'Setext', '---', '', '---', '## Sub'].join('\n');
+    expect(getHeadingLines(text)).to.deep.equal([0, 6, 10]);
+  });
+
+  it('Map scroll position between anchors', function() {
+    const anchors = [
+      { md: 0, html: 0 },
+      { md: 100, html: 400 },
+      { md: 200, html: 500 },
+    ];
+    expect(mapScrollTop(anchors, 50, 'md')).to.equal(200);
+    expect(mapScrollTop(anchors, 150, 'md')).to.equal(450);
+    expect(mapScrollTop(anchors, 300, 'md')).to.equal(500);
+    expect(mapScrollTop(anchors, 450, 'html')).to.equal(150);
+    expect(mapScrollTop([{ md: 0, html: 0 }, { md: 0, html: 0 }], 10, 'md')).to.equal(0);
+  });
+});
@@ -0,0 +1,47 @@
+import { getBlockRange, getSourceLine } from '../../src/utils/source';
+import { expect } from 'chai';
+
+const createPreview = (html: string) => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  return container;
+};
+
+describe('Test source', function() {
+  it('Get source line by line attribute', function() {
+    const container = createPreview('<ul data-line="2"><li data-line="2"><strong>a</strong></li></ul>');
+    expect(getSourceLine(container.querySelector('strong')!, container, '')).to.equal(2);
+  });
+
+  it('Get source line by text', function() {
+    const text = [
+      '# Title',
+      '',
+      'Some **bold** text',
+      '',
+      '* item',
+      '* Some bold text',
+      '',
+      '| a | b |',
+      '| - | - |',
+      '| 1 | 2 |',
+    ].join('\n');
+    const container = createPreview(
+      '<h1>Title</h1><p>Some <strong>bold</strong> text</p><ul><li>item</li><li>Some bold text</li></ul>' +
+        '<table><thead><tr><th>a</th><th>b</th></tr></thead><tbody><tr><td>1</td><td>2</td></tr></tbody></table>',
+    );
+    expect(getSourceLine(container.querySelector('h1')!, container, text)).to.equal(0);
+    expect(getSourceLine(container.querySelector('strong')!, container, text)).to.equal(2);
+    expect(getSourceLine(container.querySelectorAll('li')[1], container, text)).to.equal(5);
+    expect(getSourceLine(container.querySelector('td')!, container, text)).to.equal(9);
+  });
+
+  it('Get block range', function() {
+    const text = ['# Title', 'para line 1', 'para line 2', '', '* a', '  more', '* b', '', '```', 'code', '```'].join('\n');
+    expect(getBlockRange(text, 0)).to.deep.equal({ start: 0, end: 7 });
+    expect(getBlockRange(text, 2)).to.deep.equal({ start: 8, end: 31 });
+    expect(getBlockRange(text, 5)).to.deep.equal({ start: 33, end: 43 });
+    expect(getBlockRange(text, 6)).to.deep.equal({ start: 44, end: 47 });
+    expect(getBlockRange(text, 9)).to.deep.equal({ start: 49, end: 61 });
+  });
+});
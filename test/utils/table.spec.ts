@@ -0,0 +1,61 @@
+import {
+  formatTable,
+  getCellOffset,
+  getTableAt,
+  insertColumn,
+  insertRow,
+  moveColumn,
+  removeRow,
+  setColumnAlign,
+} from '../../src/utils/table';
+import { expect } from 'chai';
+
+const source = 'text\n|a|b|\n|-|:-:|\n|1|2\\|3|\n\nother';
+
+describe('Test table', function() {
+  it('Find table at caret', function() {
+    const range = getTableAt(source, source.indexOf('2'));
+    expect(range).to.deep.equal({
+      start: 5,
+      end: 27,
+      table: {
+        header: ['a', 'b'],
+        align: ['', 'center'],
+        rows: [['1', '2\\|3']],
+      },
+      row: 1,
+      col: 1,
+    });
+    expect(getTableAt(source, 0)).to.be.undefined;
+    expect(getTableAt('a | b\nc | d', 0)).to.be.undefined;
+  });
+
+  it('Format table', function() {
+    const { table } = getTableAt(source, 6)!;
+    expect(formatTable(table)).to.equal('| a   |  b   |\n| --- | :--: |\n| 1   | 2\\|3 |');
+    expect(formatTable(setColumnAlign(table, 0, 'right'))).to.equal(
+      '|   a |  b   |\n| --: | :--: |\n|   1 | 2\\|3 |',
+    );
+  });
+
+  it('Edit table', function() {
+    const { table } = getTableAt(source, 6)!;
+    expect(insertColumn(table, 1).header).to.deep.equal(['a', '', 'b']);
+    expect(moveColumn(table, 0, 1)).to.deep.equal({
+      header: ['b', 'a'],
+      align: ['center', ''],
+      rows: [['2\\|3', '1']],
+    });
+    expect(removeRow(table, 0).rows).to.deep.equal([]);
+  });
+
+  it('Cell offset', function() {
+    const { table } = getTableAt(source, 6)!;
+    const formatted = formatTable(table);
+    expect(formatted.slice(getCellOffset(table, 1, 1))).to.equal('2\\|3 |');
+    expect(formatted.slice(getCellOffset(table, 0, 0))).to.match(/^a /);
+    // 空单元格
+    const empty = insertRow(table, 1);
+    expect(formatTable(empty).slice(getCellOffset(empty, 2, 0))).to.match(/^ {4}\|/);
+  });
+});
@@ -0,0 +1,24 @@
+import getUploadPlaceholder, { getUploadSyntax } from '../../src/utils/uploadPlaceholder';
+import { expect } from 'chai';
+
+describe('Test uploadPlaceholder', function() {
+  it('Syntax by MIME type', function() {
+    expect(getUploadSyntax(new File([''], 'a.png', { type: 'image/png' }))).to.equal('image');
+    expect(getUploadSyntax(new File([''], 'a.tiff', { type: 'image/tiff' }))).to.equal('link');
+    expect(getUploadSyntax(new File([''], 'a.pdf', { type: 'application/pdf' }))).to.equal('link');
+  });
+
+  it('Image placeholder', function() {
+    const file = new File([''], 'a.png', { type: 'image/png' });
+    const { placeholder, uploaded } = getUploadPlaceholder(file, () => Promise.resolve('/a.png'));
+    expect(placeholder).to.match(/^!\[Uploading_.+\]\(\)$/);
+    return uploaded.then(text => expect(text).to.equal('![a.png](/a.png)'));
+  });
+
+  it('Link placeholder', function() {
+    const file = new File([''], 'a.pdf', { type: 'application/pdf' });
+    const { placeholder, uploaded } = getUploadPlaceholder(file, () => Promise.resolve('/a.pdf'), 'link');
+    expect(placeholder).to.match(/^\[Uploading_.+\]\(\)$/);
+    return uploaded.then(text => expect(text).to.equal('[a.pdf](/a.pdf)'));
+  });
+});